@@ -0,0 +1,17 @@
+/**
+ * The types of the authentication lifecycle events:
+ * - loginSucceeded: the user has been logged in
+ * - loginFailed: the login request has been failed
+ * - challengeRequired: a multi-factor authentication challenge has to be completed to finish the login
+ * - reauthenticated: the user has entered the password again for a sensitive operation
+ * - tokenRefreshed: the access token has been refreshed
+ * - refreshFailed: the token refresh request has been failed
+ * - refreshTokenReused: the server has detected the reuse of a rotated refresh token, the session is considered compromised and the tokens have been cleared
+ * - sessionExpired: the refresh token has been expired, the user has to log in again
+ * - loggedOut: the user has been logged out
+ * - storageError: the tokens couldn't be loaded from or saved to the storage backend
+ * - idleWarning: the user has been idle and will be logged out soon
+ * - idleTimeout: the user has been idle for too long and will be logged out
+ * - userLoadFailed: the content of the current user couldn't be loaded
+ */
+export type AuthenticationEventType = "loginSucceeded" | "loginFailed" | "challengeRequired" | "reauthenticated" | "tokenRefreshed" | "refreshFailed" | "refreshTokenReused" | "sessionExpired" | "loggedOut" | "storageError" | "idleWarning" | "idleTimeout" | "userLoadFailed";
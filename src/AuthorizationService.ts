@@ -0,0 +1,211 @@
+import { ConstantContent, Repository } from "@sensenet/client-core";
+import { IDisposable, ObservableValue } from "@sensenet/client-utils";
+import { Group, User } from "@sensenet/default-content-types";
+import { JwtService } from "./JwtService";
+
+/**
+ * The name of a sensenet permission (e.g. 'See', 'Open' or 'Save')
+ */
+export type PermissionName = Parameters<Repository["security"]["hasPermission"]>[1][number];
+
+/**
+ * Creates an observable flag. The initial value is set with setValue(), because the constructor ignores falsy values.
+ */
+const createFlag = (value: boolean) => {
+    const flag = new ObservableValue<boolean>();
+    flag.setValue(value);
+    return flag;
+};
+
+/**
+ * A cached permission check
+ */
+interface IPermissionCheck {
+    /**
+     * The id or path of the content
+     */
+    contentIdOrPath: string | number;
+
+    /**
+     * The permissions that should be allowed on the content
+     */
+    permissions: PermissionName[];
+
+    /**
+     * The observable result of the check
+     */
+    result: ObservableValue<boolean>;
+}
+
+/**
+ * Loads and caches the groups (roles) and the permissions of the current user of a JwtService.
+ * The results are exposed as observable values that will be reloaded when the user changes and cleared on logout.
+ *
+ * Usage example:
+ * ```ts
+ * const authorization = new AuthorizationService(jwtService);
+ * authorization.hasRole("Administrators").subscribe((isAdmin) => showAdminMenu(isAdmin));
+ * authorization.hasPermission("/Root/Content/Docs", ["Save"]).subscribe((canSave) => enableSaveButton(canSave));
+ * ```
+ */
+export class AuthorizationService implements IDisposable {
+
+    private readonly roleChecks: Map<string, ObservableValue<boolean>> = new Map<string, ObservableValue<boolean>>();
+    private readonly permissionChecks: Map<string, IPermissionCheck> = new Map<string, IPermissionCheck>();
+    private readonly userObserver: IDisposable;
+    private loadedUserPath?: string;
+    private loadVersion = 0;
+    private pendingLoad: Promise<void> = Promise.resolve();
+
+    /**
+     * The groups of the current user, including the indirect memberships. Empty if there is no logged in user.
+     */
+    public readonly groups: ObservableValue<Group[]> = new ObservableValue<Group[]>([]);
+
+    /**
+     * Observable value that will be updated with the errors of the group and permission requests
+     */
+    public readonly loadError: ObservableValue<any> = new ObservableValue<any>();
+
+    /**
+     * @param {JwtService} jwtService The service of the session, its current user will be authorized
+     */
+    constructor(private readonly jwtService: JwtService) {
+        this.userObserver = this.jwtService.currentUser.subscribe((user) => this.handleUserChange(user));
+        this.handleUserChange(this.jwtService.currentUser.getValue());
+    }
+
+    /**
+     * Returns an observable value that indicates if the current user is a member of the specified group (directly or indirectly)
+     * @param {string} role The name or the full path of the group (e.g. 'Administrators' or '/Root/IMS/BuiltIn/Portal/Administrators')
+     * @returns {ObservableValue<boolean>} The observable result, the same instance will be returned for the same role
+     */
+    public hasRole(role: string): ObservableValue<boolean> {
+        let check = this.roleChecks.get(role);
+        if (!check) {
+            check = createFlag(this.isMemberOf(role));
+            this.roleChecks.set(role, check);
+        }
+        return check;
+    }
+
+    /**
+     * Returns an observable value that indicates if the current user has all the specified permissions on a content.
+     * The check will be executed on the first call and the result will be cached until the user changes.
+     * @param {string | number} contentIdOrPath The id or path of the content
+     * @param {PermissionName[]} permissions The permissions that should be allowed
+     * @returns {ObservableValue<boolean>} The observable result, the same instance will be returned for the same content and permissions
+     */
+    public hasPermission(contentIdOrPath: string | number, permissions: PermissionName[]): ObservableValue<boolean> {
+        const key = `${contentIdOrPath}|${[...permissions].sort().join(",")}`;
+        let check = this.permissionChecks.get(key);
+        if (!check) {
+            check = { contentIdOrPath, permissions, result: createFlag(false) };
+            this.permissionChecks.set(key, check);
+            if (this.loadedUserPath) {
+                const version = this.loadVersion;
+                const loadCheck = this.loadPermission(check, version);
+                this.pendingLoad = this.pendingLoad.then(() => loadCheck);
+            }
+        }
+        return check.result;
+    }
+
+    /**
+     * Reloads the groups and all the cached permission checks of the current user (e.g. after a permission change)
+     */
+    public async reload(): Promise<void> {
+        if (this.loadedUserPath) {
+            this.load(this.loadedUserPath);
+        }
+        await this.awaitLoaded();
+    }
+
+    /**
+     * Returns a promise that will be resolved when the pending group and permission requests have been completed
+     */
+    public async awaitLoaded(): Promise<void> {
+        await this.pendingLoad;
+    }
+
+    /**
+     * Disposes the service and the observable values
+     */
+    public dispose() {
+        this.loadVersion++;
+        this.userObserver.dispose();
+        this.groups.dispose();
+        this.loadError.dispose();
+        this.roleChecks.forEach((check) => check.dispose());
+        this.permissionChecks.forEach((check) => check.result.dispose());
+    }
+
+    private handleUserChange(user: User) {
+        const userPath = !user || user.Path === ConstantContent.VISITOR_USER.Path ? undefined : user.Path;
+        if (userPath === this.loadedUserPath) {
+            return;
+        }
+        // the results of the previous user shouldn't remain available
+        this.groups.setValue([]);
+        this.updateRoles();
+        this.permissionChecks.forEach((check) => check.result.setValue(false));
+        this.loadedUserPath = userPath;
+        if (userPath) {
+            this.load(userPath);
+        } else {
+            this.loadVersion++;
+            this.pendingLoad = Promise.resolve();
+        }
+    }
+
+    private load(userPath: string) {
+        const version = ++this.loadVersion;
+        this.pendingLoad = Promise.all([
+            this.loadGroups(userPath, version),
+            ...Array.from(this.permissionChecks.values()).map((check) => this.loadPermission(check, version)),
+        ]).then(() => undefined);
+    }
+
+    private async loadGroups(userPath: string, version: number) {
+        let groups: Group[] = [];
+        try {
+            const response = await this.jwtService.repository.security.getParentGroups({
+                contentIdOrPath: userPath,
+                directOnly: false,
+                oDataOptions: { select: ["Id", "Name", "Path"] },
+            });
+            groups = response.d.results;
+        } catch (error) {
+            if (version === this.loadVersion) {
+                this.loadError.setValue(error);
+            }
+        }
+        if (version === this.loadVersion) {
+            this.groups.setValue(groups);
+            this.updateRoles();
+        }
+    }
+
+    private async loadPermission(check: IPermissionCheck, version: number) {
+        let result = false;
+        try {
+            result = await this.jwtService.repository.security.hasPermission(check.contentIdOrPath, check.permissions);
+        } catch (error) {
+            if (version === this.loadVersion) {
+                this.loadError.setValue(error);
+            }
+        }
+        // the result of a request for a previous user will be dropped
+        if (version === this.loadVersion) {
+            check.result.setValue(result);
+        }
+    }
+
+    private isMemberOf(role: string): boolean {
+        return this.groups.getValue().some((group) => group.Name === role || group.Path === role);
+    }
+
+    private updateRoles() {
+        this.roleChecks.forEach((check, role) => check.setValue(this.isMemberOf(role)));
+    }
+}
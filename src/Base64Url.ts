@@ -0,0 +1,39 @@
+const base64UrlAlphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Encodes a byte array to an unpadded base64url string
+ */
+export const toBase64Url = (bytes: Uint8Array): string => {
+    let result = "";
+    for (let i = 0; i < bytes.length; i += 3) {
+        const chunkLength = Math.min(bytes.length - i, 3);
+        const value = bytes[i] * 0x10000 + (bytes[i + 1] || 0) * 0x100 + (bytes[i + 2] || 0);
+        for (let j = 0; j <= chunkLength; j++) {
+            result += base64UrlAlphabet[Math.floor(value / Math.pow(64, 3 - j)) % 64];
+        }
+    }
+    return result;
+};
+
+/**
+ * Decodes an unpadded base64url string to a byte array
+ * @throws {Error} if the string contains a character that is not in the base64url alphabet
+ */
+export const fromBase64Url = (encoded: string): Uint8Array => {
+    const bytes: number[] = [];
+    for (let i = 0; i < encoded.length; i += 4) {
+        const chunk = encoded.substr(i, 4);
+        let value = 0;
+        for (let j = 0; j < 4; j++) {
+            const index = j < chunk.length ? base64UrlAlphabet.indexOf(chunk[j]) : 0;
+            if (index === -1) {
+                throw new Error(`Invalid base64url character '${chunk[j]}'`);
+            }
+            value = value * 64 + index;
+        }
+        for (let j = 0; j < chunk.length - 1; j++) {
+            bytes.push(Math.floor(value / Math.pow(0x100, 2 - j)) % 0x100);
+        }
+    }
+    return new Uint8Array(bytes);
+};
@@ -0,0 +1,45 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { ITokenSyncMessage } from "./ITokenSyncMessage";
+import { ITokenSyncTransport } from "./ITokenSyncTransport";
+
+/**
+ * Token sync transport that uses a BroadcastChannel
+ */
+export class BroadcastChannelTransport implements ITokenSyncTransport {
+
+    private readonly channel: BroadcastChannel;
+
+    /**
+     * @param {string} channelName The name of the BroadcastChannel
+     */
+    constructor(channelName: string = "sn-token-sync") {
+        this.channel = new BroadcastChannel(channelName);
+    }
+
+    /**
+     * Posts the message to the channel
+     * @param {ITokenSyncMessage} message The message to send
+     */
+    public send(message: ITokenSyncMessage) {
+        this.channel.postMessage(message);
+    }
+
+    /**
+     * Subscribes to the messages from the channel
+     * @param {(message: ITokenSyncMessage) => void} callback The callback that will be called on each incoming message
+     */
+    public subscribe(callback: (message: ITokenSyncMessage) => void): IDisposable {
+        const listener = (ev: MessageEvent) => callback(ev.data);
+        this.channel.addEventListener("message", listener);
+        return {
+            dispose: () => this.channel.removeEventListener("message", listener),
+        };
+    }
+
+    /**
+     * Closes the channel
+     */
+    public dispose() {
+        this.channel.close();
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * This enum represents the type of a multi-factor authentication challenge
+ */
+export enum ChallengeType {
+    /**
+     * A time-based one-time password from an authenticator app
+     */
+    Totp = "totp",
+
+    /**
+     * A code that has been sent to the user in email
+     */
+    Email = "email",
+
+    /**
+     * One of the recovery codes of the user
+     */
+    RecoveryCode = "recovery",
+}
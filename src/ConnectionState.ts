@@ -0,0 +1,19 @@
+/**
+ * This enum represents the availability of the token refresh endpoint
+ */
+export enum ConnectionState {
+    /**
+     * The tokens can be refreshed
+     */
+    Online = "Online",
+
+    /**
+     * The refresh requests have failed with network errors, the session is kept and the refresh will be resumed when the connection returns
+     */
+    Offline = "Offline",
+
+    /**
+     * The server has failed to refresh the tokens (e.g. with HTTP 503), the session is kept and the refresh will be retried later
+     */
+    Degraded = "Degraded",
+}
@@ -0,0 +1,26 @@
+import { ICookieOptions } from "./ICookieOptions";
+
+/**
+ * Formats the attributes of a cookie (starting with a separator) from the cookie options and the expiration date
+ * @param {ICookieOptions} options The cookie options
+ * @param {Date} expires The expiration date. The cookie will be a session cookie if not provided.
+ */
+export const formatCookieAttributes = (options: ICookieOptions, expires?: Date): string => {
+    let attributes = "";
+    if (options.path) {
+        attributes += `; Path=${options.path}`;
+    }
+    if (options.domain) {
+        attributes += `; Domain=${options.domain}`;
+    }
+    if (expires) {
+        attributes += `; Expires=${expires.toUTCString()}`;
+    }
+    if (options.secure) {
+        attributes += "; Secure";
+    }
+    if (options.sameSite) {
+        attributes += `; SameSite=${options.sameSite}`;
+    }
+    return attributes;
+};
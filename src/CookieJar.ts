@@ -0,0 +1,74 @@
+import { formatCookieAttributes } from "./CookieAttributes";
+import { ICookieOptions } from "./ICookieOptions";
+
+/**
+ * A request-scoped cookie jar for server-side rendering. It parses the cookies of an incoming request
+ * and collects the changes as Set-Cookie headers for the outgoing response. The cookies will be HttpOnly.
+ */
+export class CookieJar {
+
+    private readonly values: Map<string, string> = new Map<string, string>();
+    private readonly changes: Map<string, string> = new Map<string, string>();
+
+    /**
+     * @param {string | string[]} cookieHeader The Cookie header(s) of the incoming request
+     * @param {ICookieOptions} cookieOptions The Path, Domain, Secure and SameSite attributes of the cookies
+     */
+    constructor(cookieHeader?: string | string[], private readonly cookieOptions: ICookieOptions = { path: "/" }) {
+        const headers = Array.isArray(cookieHeader) ? cookieHeader : cookieHeader ? [cookieHeader] : [];
+        for (const header of headers) {
+            for (const pair of header.split(";")) {
+                const separatorIndex = pair.indexOf("=");
+                if (separatorIndex > 0) {
+                    const name = this.decode(pair.substring(0, separatorIndex).trim());
+                    if (!this.values.has(name)) {
+                        this.values.set(name, this.decode(pair.substring(separatorIndex + 1).trim()));
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the current value of a cookie
+     * @param {string} name The name of the cookie
+     */
+    public get(name: string): string | undefined {
+        return this.values.get(name);
+    }
+
+    /**
+     * Sets the value of a cookie
+     * @param {string} name The name of the cookie
+     * @param {string} value The value of the cookie
+     * @param {Date} expires The expiration date. A session cookie will be created if not provided.
+     */
+    public set(name: string, value: string, expires?: Date) {
+        this.values.set(name, value);
+        this.changes.set(name, `${encodeURIComponent(name)}=${encodeURIComponent(value)}${formatCookieAttributes(this.cookieOptions, expires)}; HttpOnly`);
+    }
+
+    /**
+     * Removes a cookie by setting an expired, empty cookie with the same name
+     * @param {string} name The name of the cookie
+     */
+    public remove(name: string) {
+        this.values.delete(name);
+        this.changes.set(name, `${encodeURIComponent(name)}=${formatCookieAttributes(this.cookieOptions, new Date(0))}; HttpOnly`);
+    }
+
+    /**
+     * Returns the Set-Cookie headers for the changed cookies
+     */
+    public getSetCookieHeaders(): string[] {
+        return Array.from(this.changes.values());
+    }
+
+    private decode(value: string): string {
+        try {
+            return decodeURIComponent(value);
+        } catch (error) {
+            return value;
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { CookieJar } from "./CookieJar";
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+import { TokenPersist } from "./TokenPersist";
+
+/**
+ * Token storage backend that stores the tokens in a request-scoped cookie jar (used in server mode)
+ */
+export class CookieJarStorageBackend implements ITokenStorageBackend {
+
+    /**
+     * @param {CookieJar} cookieJar The cookie jar of the current request
+     * @param {TokenPersist} tokenPersist Setting that indicates if the cookie should be a session cookie or should expire with the token
+     */
+    constructor(private readonly cookieJar: CookieJar, private readonly tokenPersist: TokenPersist) {
+    }
+
+    /**
+     * Retrieves the value from the cookie jar
+     * @param {string} key The name of the cookie
+     */
+    public async get(key: string): Promise<string | null> {
+        const value = this.cookieJar.get(key);
+        return value !== undefined ? value : null;
+    }
+
+    /**
+     * Stores the value in the cookie jar
+     * @param {string} key The name of the cookie
+     * @param {string} value The value to store
+     * @param {Date} expiration The cookie expiration date (used only with TokenPersist.Expiration)
+     */
+    public async set(key: string, value: string, expiration: Date): Promise<void> {
+        this.cookieJar.set(key, value, this.tokenPersist === TokenPersist.Expiration ? expiration : undefined);
+    }
+
+    /**
+     * Removes the cookie from the cookie jar
+     * @param {string} key The name of the cookie
+     */
+    public async remove(key: string): Promise<void> {
+        this.cookieJar.remove(key);
+    }
+}
@@ -0,0 +1,63 @@
+import { formatCookieAttributes } from "./CookieAttributes";
+import { ICookieOptions } from "./ICookieOptions";
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+import { TokenPersist } from "./TokenPersist";
+
+/**
+ * Token storage backend that stores the tokens in cookies
+ */
+export class CookieStorageBackend implements ITokenStorageBackend {
+
+    /**
+     * @param {Partial<Document>} documentRef The Document reference
+     * @param {TokenPersist} tokenPersist Setting that indicates if the cookie should be a session cookie or should expire with the token
+     * @param {ICookieOptions} cookieOptions The Path, Domain, Secure and SameSite attributes of the cookies
+     */
+    constructor(private readonly documentRef: Pick<Document, "cookie">,
+                private readonly tokenPersist: TokenPersist,
+                private readonly cookieOptions: ICookieOptions = {}) {
+    }
+
+    /**
+     * Retrieves the value from the cookie
+     * @param {string} key The name of the cookie
+     */
+    public async get(key: string): Promise<string | null> {
+        return this.getSync(key);
+    }
+
+    /**
+     * Retrieves the value from the cookie synchronously
+     * @param {string} key The name of the cookie
+     */
+    public getSync(key: string): string | null {
+        const prefix = key + "=";
+        if (this.documentRef && this.documentRef.cookie) {
+            const cookieVal = this.documentRef.cookie.split(";")
+                .map((v) => v.trim())
+                .find((v) => v.indexOf(prefix) === 0);
+            if (cookieVal) {
+                return cookieVal.substring(prefix.length);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Stores the value in a cookie
+     * @param {string} key The name of the cookie
+     * @param {string} value The value to store
+     * @param {Date} expiration The cookie expiration date (used only with TokenPersist.Expiration)
+     */
+    public async set(key: string, value: string, expiration: Date): Promise<void> {
+        this.documentRef.cookie = `${key}=${value}${formatCookieAttributes(this.cookieOptions, this.tokenPersist === TokenPersist.Expiration ? expiration : undefined)}`;
+    }
+
+    /**
+     * Deletes the cookie by overwriting it with an expired one (with the same Path and Domain)
+     * @param {string} key The name of the cookie
+     */
+    public async remove(key: string): Promise<void> {
+        this.documentRef.cookie = `${key}=${formatCookieAttributes(this.cookieOptions, new Date(0))}`;
+    }
+}
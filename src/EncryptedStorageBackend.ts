@@ -0,0 +1,99 @@
+import { fromBase64Url, toBase64Url } from "./Base64Url";
+import { ITokenEncryptionKeyProvider } from "./ITokenEncryptionKeyProvider";
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+import { TokenDecryptionError } from "./TokenDecryptionError";
+
+const formatPrefix = "enc1";
+
+const ivLength = 12;
+
+const toBytes = (value: string) => new Uint8Array(value.split("").map((c) => c.charCodeAt(0)));
+
+const fromBytes = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+
+/**
+ * Token storage backend that encrypts the values with AES-GCM before passing them to an inner backend.
+ * Every value is encrypted with a new random IV and is bound to its storage key, so the stored values can't be swapped.
+ * Values that can't be decrypted (e.g. plain values from an earlier version or values that have been encrypted with a lost key)
+ * will be removed from the inner backend and reported with a TokenDecryptionError.
+ *
+ * Usage example:
+ * ```ts
+ * const storageBackend = new EncryptedStorageBackend(new WebStorageBackend(localStorage), new IndexedDbKeyProvider());
+ * const jwtService = new JwtService(repository, undefined, undefined, { storageBackend });
+ * ```
+ */
+export class EncryptedStorageBackend implements ITokenStorageBackend {
+
+    private keyPromise?: Promise<CryptoKey>;
+
+    /**
+     * @param {ITokenStorageBackend} innerBackend The backend that will store the encrypted values
+     * @param {ITokenEncryptionKeyProvider} keyProvider Provides the AES-GCM key
+     * @param {Pick<Crypto, "getRandomValues" | "subtle">} cryptoRef The WebCrypto implementation, defaults to the global 'crypto' object
+     */
+    constructor(private readonly innerBackend: ITokenStorageBackend,
+                private readonly keyProvider: ITokenEncryptionKeyProvider,
+                private readonly cryptoRef: Pick<Crypto, "getRandomValues" | "subtle"> = crypto) {
+    }
+
+    /**
+     * Retrieves and decrypts the value from the inner backend
+     * @param {string} key The key of the value
+     * @throws {TokenDecryptionError} if the stored value can't be decrypted. The value will be removed.
+     */
+    public async get(key: string): Promise<string | null> {
+        const stored = await this.innerBackend.get(key);
+        if (!stored) {
+            return null;
+        }
+        const cryptoKey = await this.getKey();
+        try {
+            return await this.decrypt(cryptoKey, key, stored);
+        } catch (err) {
+            await this.innerBackend.remove(key);
+            throw new TokenDecryptionError(`The stored value of '${key}' can't be decrypted and has been discarded`, key);
+        }
+    }
+
+    /**
+     * Encrypts the value and stores it in the inner backend
+     * @param {string} key The key of the value
+     * @param {string} value The value to store
+     * @param {Date} expiration The date when the stored value will be expired
+     */
+    public async set(key: string, value: string, expiration: Date): Promise<void> {
+        const cryptoKey = await this.getKey();
+        const iv = this.cryptoRef.getRandomValues(new Uint8Array(ivLength));
+        const encrypted = await this.cryptoRef.subtle.encrypt({ name: "AES-GCM", iv, additionalData: toBytes(key) }, cryptoKey, toBytes(value));
+        await this.innerBackend.set(key, `${formatPrefix}.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(encrypted))}`, expiration);
+    }
+
+    /**
+     * Removes the value from the inner backend
+     * @param {string} key The key of the value
+     */
+    public async remove(key: string): Promise<void> {
+        await this.innerBackend.remove(key);
+    }
+
+    private getKey(): Promise<CryptoKey> {
+        if (!this.keyPromise) {
+            this.keyPromise = this.keyProvider.getKey().catch((err) => {
+                // the provider will be asked again on the next access
+                this.keyPromise = undefined;
+                throw err;
+            });
+        }
+        return this.keyPromise;
+    }
+
+    private async decrypt(cryptoKey: CryptoKey, key: string, stored: string): Promise<string> {
+        const [prefix, iv, data] = stored.split(".");
+        if (prefix !== formatPrefix || !iv || !data) {
+            throw new Error("The stored value is not encrypted");
+        }
+        const decrypted = await this.cryptoRef.subtle.decrypt({ name: "AES-GCM", iv: fromBase64Url(iv), additionalData: toBytes(key) }, cryptoKey, fromBase64Url(data));
+        return fromBytes(new Uint8Array(decrypted));
+    }
+}
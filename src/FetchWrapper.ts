@@ -0,0 +1,27 @@
+import { Repository } from "@sensenet/client-core";
+import { IDisposable } from "@sensenet/client-utils";
+
+/**
+ * Installs a wrapper around the fetch method of the repository. The wrapper is created from the wrapped (previously installed) fetch method.
+ * When disposed, the previous method is restored if the wrapper is still the installed one. Otherwise (e.g. because another wrapper has been
+ * installed since) the wrapper can't be removed from the chain, so it will pass the requests through.
+ * @param {Repository} repository The repository whose fetch method will be wrapped
+ * @param {(next: Repository["fetch"]) => Repository["fetch"]} createWrapper Creates the wrapper from the wrapped fetch method
+ * @returns {IDisposable} Removes or disables the wrapper
+ */
+export const installFetchWrapper = (repository: Repository, createWrapper: (next: Repository["fetch"]) => Repository["fetch"]): IDisposable => {
+    const previousFetch = repository.fetch;
+    const next: Repository["fetch"] = (...args: Parameters<Repository["fetch"]>) => previousFetch.apply(repository, args);
+    const wrapper = createWrapper(next);
+    let isInstalled = true;
+    const installedFetch: Repository["fetch"] = (...args: Parameters<Repository["fetch"]>) => isInstalled ? wrapper(...args) : next(...args);
+    repository.fetch = installedFetch;
+    return {
+        dispose: () => {
+            isInstalled = false;
+            if (repository.fetch === installedFetch) {
+                repository.fetch = previousFetch;
+            }
+        },
+    };
+};
@@ -0,0 +1,39 @@
+/**
+ * This interface represents an active session (a device or a browser with a valid refresh token) of the current user on the server
+ */
+export interface IActiveSession {
+    /**
+     * The unique identifier of the session, can be used for revocation
+     */
+    id: string;
+
+    /**
+     * The name of the device or client, if known
+     */
+    device?: string;
+
+    /**
+     * The user agent of the client that has created the session
+     */
+    userAgent?: string;
+
+    /**
+     * The IP address of the last activity
+     */
+    ipAddress?: string;
+
+    /**
+     * The creation date of the session in ISO 8601 format
+     */
+    createdAt?: string;
+
+    /**
+     * The date of the last activity (e.g. token refresh) in ISO 8601 format
+     */
+    lastActivity?: string;
+
+    /**
+     * Indicates if this is the session of the current client
+     */
+    current?: boolean;
+}
@@ -0,0 +1,12 @@
+import { IActiveSession } from "./IActiveSession";
+import { IServerRequestResult } from "./IServerRequestResult";
+
+/**
+ * This interface represents the result of an active session listing request
+ */
+export interface IActiveSessionsResult extends IServerRequestResult {
+    /**
+     * The active sessions of the current user (empty if the request has been failed)
+     */
+    sessions: IActiveSession[];
+}
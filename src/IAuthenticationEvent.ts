@@ -0,0 +1,21 @@
+import { AuthenticationEventType } from "./AuthenticationEventType";
+
+/**
+ * This interface represents an event of the authentication lifecycle, emitted by the JwtService's 'events' observable
+ */
+export interface IAuthenticationEvent {
+    /**
+     * The type of the event
+     */
+    type: AuthenticationEventType;
+
+    /**
+     * The HTTP status of the related response (for loginFailed and refreshFailed events, if there was a response)
+     */
+    status?: number;
+
+    /**
+     * The related error (for network errors, storageError and userLoadFailed events)
+     */
+    error?: any;
+}
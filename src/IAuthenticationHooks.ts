@@ -0,0 +1,38 @@
+/**
+ * Interface that represents callbacks that will be executed around the login, token refresh and logout operations.
+ * The hooks will be awaited, and errors thrown from them will be propagated to the caller of the operation.
+ */
+export interface IAuthenticationHooks {
+    /**
+     * Executed before the login request
+     * @param {string} username The name of the user, or the name of the Oauth Provider on a login with loginWith()
+     */
+    beforeLogin?(username: string): void | Promise<void>;
+
+    /**
+     * Executed after the login request
+     * @param {boolean} success Indicates if the login was successful
+     */
+    afterLogin?(success: boolean): void | Promise<void>;
+
+    /**
+     * Executed before the token refresh request
+     */
+    beforeRefresh?(): void | Promise<void>;
+
+    /**
+     * Executed after the token refresh request
+     * @param {boolean} success Indicates if the access token has been refreshed
+     */
+    afterRefresh?(success: boolean): void | Promise<void>;
+
+    /**
+     * Executed before the logout
+     */
+    beforeLogout?(): void | Promise<void>;
+
+    /**
+     * Executed after the logout
+     */
+    afterLogout?(): void | Promise<void>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Interface that represents a source of the current time and a timer, used for the token validity checks and for scheduling token related tasks
+ */
+export interface IClock {
+    /**
+     * Returns the current date and time
+     */
+    now(): Date;
+
+    /**
+     * Executes the callback after the specified amount of milliseconds
+     * @returns A handle that can be passed to clearTimeout()
+     */
+    setTimeout(callback: () => void, ms: number): any;
+
+    /**
+     * Cancels a timer that has been created with setTimeout()
+     * @param handle The handle returned from setTimeout()
+     */
+    clearTimeout(handle: any): void;
+}
@@ -0,0 +1,30 @@
+/**
+ * Options for the cookies that store the tokens
+ */
+export interface ICookieOptions {
+    /**
+     * The Path attribute of the cookies
+     */
+    path?: string;
+
+    /**
+     * The Domain attribute of the cookies
+     */
+    domain?: string;
+
+    /**
+     * If true, the cookies will be sent only over HTTPS
+     */
+    secure?: boolean;
+
+    /**
+     * The SameSite attribute of the cookies
+     */
+    sameSite?: "Strict" | "Lax" | "None";
+
+    /**
+     * If true, the refresh token is expected to be stored by the server in an HttpOnly cookie.
+     * The client won't store the refresh token and the refresh requests will rely on the cookie.
+     */
+    httpOnlyRefreshToken?: boolean;
+}
@@ -0,0 +1,27 @@
+/**
+ * Options for the idle timeout of the JwtService
+ */
+export interface IIdleTimeoutOptions {
+    /**
+     * The user will be logged out after this many milliseconds of inactivity
+     */
+    timeoutMs: number;
+
+    /**
+     * An 'idleWarning' event will be emitted this many milliseconds before the timeout
+     * @default 0 (no warning)
+     */
+    warningMs?: number;
+
+    /**
+     * If true, the background refresh scheduler won't refresh the access token while the user is idle
+     * @default false
+     */
+    stopRefreshWhenIdle?: boolean;
+
+    /**
+     * If true, each outgoing repository.fetch() call will be recorded as an activity
+     * @default true
+     */
+    trackRequests?: boolean;
+}
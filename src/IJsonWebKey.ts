@@ -0,0 +1,54 @@
+/**
+ * This interface represents a public or symmetric key in JSON Web Key (JWK) format
+ */
+export interface IJsonWebKey {
+    /**
+     * key type: 'RSA', 'EC' or 'oct'
+     */
+    kty: string;
+
+    /**
+     * key ID: identifies the key, matched against the 'kid' header of the token
+     */
+    kid?: string;
+
+    /**
+     * algorithm: the algorithm that the key is intended to be used with
+     */
+    alg?: string;
+
+    /**
+     * public key use: 'sig' or 'enc'
+     */
+    use?: string;
+
+    /**
+     * RSA modulus (base64url encoded)
+     */
+    n?: string;
+
+    /**
+     * RSA public exponent (base64url encoded)
+     */
+    e?: string;
+
+    /**
+     * EC curve name, e.g. 'P-256'
+     */
+    crv?: string;
+
+    /**
+     * EC x coordinate (base64url encoded)
+     */
+    x?: string;
+
+    /**
+     * EC y coordinate (base64url encoded)
+     */
+    y?: string;
+
+    /**
+     * symmetric key value (base64url encoded)
+     */
+    k?: string;
+}
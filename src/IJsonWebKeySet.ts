@@ -0,0 +1,11 @@
+import { IJsonWebKey } from "./IJsonWebKey";
+
+/**
+ * This interface represents a JSON Web Key Set (JWKS) document
+ */
+export interface IJsonWebKeySet {
+    /**
+     * The list of the keys
+     */
+    keys: IJsonWebKey[];
+}
@@ -0,0 +1,19 @@
+/**
+ * This interface represents the JOSE header of a JSON Web Token
+ */
+export interface IJwtHeader {
+    /**
+     * algorithm: identifies the algorithm that has been used to sign the token (e.g. HS256, RS256, ES256)
+     */
+    alg?: string;
+
+    /**
+     * key ID: identifies the key that has been used to sign the token
+     */
+    kid?: string;
+
+    /**
+     * type: the media type of the token, usually 'JWT'
+     */
+    typ?: string;
+}
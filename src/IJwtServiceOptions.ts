@@ -0,0 +1,35 @@
+import { IClock } from "./IClock";
+import { ICookieOptions } from "./ICookieOptions";
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+import { ITokenValidationPolicy } from "./ITokenValidationPolicy";
+
+/**
+ * Optional settings of a JwtService
+ */
+export interface IJwtServiceOptions {
+    /**
+     * A custom storage backend for the tokens. If not provided, a built-in backend will be selected based on the environment and the session lifetime setting.
+     */
+    storageBackend?: ITokenStorageBackend;
+
+    /**
+     * Additional rules (e.g. expected issuer and audiences) that the tokens should match to be accepted
+     */
+    validationPolicy?: ITokenValidationPolicy;
+
+    /**
+     * The name of the session. Services with different session names will store their tokens separately, even for the same repository.
+     */
+    sessionName?: string;
+
+    /**
+     * The attributes of the cookies (for the cookie based token stores) and the HttpOnly refresh token setting
+     */
+    cookieOptions?: ICookieOptions;
+
+    /**
+     * The source of the local time and the default clock for the timers. The time of the server will be followed with a skew compensated 'clock' based on it.
+     * @default SystemClock
+     */
+    clock?: IClock;
+}
@@ -0,0 +1,26 @@
+import { ChallengeType } from "./ChallengeType";
+
+/**
+ * This interface represents a multi-factor authentication challenge that has to be completed to finish the login
+ */
+export interface ILoginChallenge {
+    /**
+     * The type of the requested code
+     */
+    type: ChallengeType;
+
+    /**
+     * The opaque challenge token that identifies the login attempt on the server
+     */
+    token: string;
+
+    /**
+     * The challenge types that can be used instead of the requested one (e.g. a recovery code)
+     */
+    allowedTypes?: ChallengeType[];
+
+    /**
+     * The masked destination of the code (e.g. the email address) if the code has been sent to the user
+     */
+    destination?: string;
+}
@@ -0,0 +1,11 @@
+import { ILoginChallenge } from "./ILoginChallenge";
+
+/**
+ * This interface represents a response body that is returned from sensenet on login if a multi-factor authentication challenge has to be completed
+ */
+export interface ILoginChallengeResponse {
+    /**
+     * The challenge that has to be completed
+     */
+    challenge: ILoginChallenge;
+}
@@ -8,7 +8,7 @@ export interface ILoginResponse {
     access: string;
 
     /**
-     * The Refresh Token head and payload in a Base64 encoded format
+     * The Refresh Token head and payload in a Base64 encoded format (can be empty if the refresh token is stored in an HttpOnly cookie)
      */
     refresh: string;
 }
@@ -0,0 +1,43 @@
+import { ILoginChallenge } from "./ILoginChallenge";
+import { ITokenValidationResult } from "./ITokenValidationResult";
+import { LoginResultReason } from "./LoginResultReason";
+
+/**
+ * This interface represents the detailed result of a login attempt
+ */
+export interface ILoginResult {
+    /**
+     * Indicates if the login was successful
+     */
+    success: boolean;
+
+    /**
+     * The reason of the result
+     */
+    reason: LoginResultReason;
+
+    /**
+     * The HTTP status of the login response (not available in case of network errors)
+     */
+    status?: number;
+
+    /**
+     * The error message from the sensenet error response
+     */
+    message?: string;
+
+    /**
+     * The validation result of the received access token (in case of an InvalidToken reason)
+     */
+    validation?: ITokenValidationResult;
+
+    /**
+     * The original error in case of network errors
+     */
+    error?: any;
+
+    /**
+     * The multi-factor authentication challenge (in case of a ChallengeRequired reason)
+     */
+    challenge?: ILoginChallenge;
+}
@@ -1,4 +1,5 @@
 import { IDisposable } from "@sensenet/client-utils/dist/Disposable";
+import { IRefreshResponse } from "./IRefreshResponse";
 
 /**
  * Interface that represents a basic structure for an additional OAuth Provider
@@ -11,6 +12,19 @@ export interface IOauthProvider extends IDisposable {
 
     /**
      * Method that handles the user login. Should be responsible for updating the Authentication State as well.
+     * A login with JwtService.loginWith() fails if it resolves with false or doesn't store a new access token.
      */
     login(token: string): Promise<any>;
+
+    /**
+     * Optional provider-specific sign-out. Will be called on logout if the current session has been created by the provider.
+     */
+    logout?(): Promise<void>;
+
+    /**
+     * Optional provider-specific token refresh. Will be called instead of the default refresh request if the current session has been created by the provider.
+     * Should resolve with the refreshed access token or with undefined if the refresh token has been rejected.
+     * @param {string} refreshToken The current refresh token
+     */
+    refresh?(refreshToken: string): Promise<IRefreshResponse | undefined>;
 }
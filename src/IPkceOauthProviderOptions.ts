@@ -0,0 +1,61 @@
+/**
+ * Options for the authorization code + PKCE OAuth provider
+ */
+export interface IPkceOauthProviderOptions {
+    /**
+     * The name of the provider on the sensenet side, will be sent to the 'sn-oauth/login' endpoint (e.g. 'google')
+     */
+    providerName: string;
+
+    /**
+     * The URL of the authorization endpoint of the identity provider
+     */
+    authorizationEndpoint: string;
+
+    /**
+     * The client ID of the application, registered at the identity provider
+     */
+    clientId: string;
+
+    /**
+     * The URL where the identity provider will redirect back after the authorization
+     */
+    redirectUri: string;
+
+    /**
+     * The requested scopes, separated with spaces
+     * @default "openid profile email"
+     */
+    scope?: string;
+
+    /**
+     * The URL of the token exchange endpoint
+     * @default the 'sn-oauth/login' endpoint of the repository
+     */
+    tokenEndpoint?: string;
+
+    /**
+     * If true, the access tokens without a nonce claim will be accepted. Only the tokens that contain a different nonce will be rejected.
+     * Enable it only if the server can't include the nonce of the authorization request in the issued tokens.
+     * @default false
+     */
+    allowMissingNonce?: boolean;
+
+    /**
+     * The storage for the pending authorization request (code verifier, state and nonce)
+     * @default sessionStorage
+     */
+    storage?: Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+    /**
+     * The WebCrypto implementation that is used for the random values and the code challenge
+     * @default crypto
+     */
+    crypto?: Pick<Crypto, "getRandomValues" | "subtle">;
+
+    /**
+     * The location that will be used for the redirect and as the default callback URL
+     * @default window.location
+     */
+    location?: Pick<Location, "href" | "assign">;
+}
@@ -0,0 +1,17 @@
+/**
+ * Options for the interceptor that refreshes the tokens and replays the repository requests that have been rejected with an expired or revoked access token
+ */
+export interface IRefreshInterceptorOptions {
+    /**
+     * The HTTP methods of the requests that can be replayed. Non-idempotent methods (e.g. POST and PATCH) are excluded by default,
+     * as the server may have processed the rejected request partially.
+     * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]
+     */
+    replayMethods?: string[];
+
+    /**
+     * Callback that decides if a response indicates a rejected access token
+     * @default HTTP 401 responses and the responses with an 'invalid_token' or 'expired' WWW-Authenticate header
+     */
+    isTokenRejected?: (response: Response) => boolean;
+}
@@ -6,4 +6,9 @@ export interface IRefreshResponse {
      * The Access Token head and payload in a Base64 encoded format
      */
     access: string;
+
+    /**
+     * The new Refresh Token head and payload in a Base64 encoded format, if the server rotates the refresh tokens
+     */
+    refresh?: string;
 }
@@ -0,0 +1,28 @@
+/**
+ * Options for retrying the token refresh after transient failures (network errors, HTTP 5xx, 408 and 429 responses)
+ */
+export interface IRefreshRetryOptions {
+    /**
+     * The number of retries after the first failed attempt
+     * @default 3
+     */
+    maxRetries?: number;
+
+    /**
+     * The delay before the first retry in milliseconds, it will be doubled for each further retry
+     * @default 1000
+     */
+    initialDelayMs?: number;
+
+    /**
+     * The maximum delay between the retries in milliseconds. The refresh will be resumed after this delay if all the retries have failed.
+     * @default 30000
+     */
+    maxDelayMs?: number;
+
+    /**
+     * The target of the 'online' events that resume the refresh immediately when the connectivity returns
+     * @default window (if available)
+     */
+    onlineEventTarget?: Pick<EventTarget, "addEventListener" | "removeEventListener">;
+}
@@ -0,0 +1,24 @@
+/**
+ * This interface represents the result of a session management request (e.g. a token or session revocation)
+ */
+export interface IServerRequestResult {
+    /**
+     * Indicates if the request was successful
+     */
+    success: boolean;
+
+    /**
+     * The HTTP status of the response (not available in case of network errors)
+     */
+    status?: number;
+
+    /**
+     * The error message from the sensenet error response
+     */
+    message?: string;
+
+    /**
+     * The original error in case of network errors
+     */
+    error?: any;
+}
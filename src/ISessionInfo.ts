@@ -0,0 +1,32 @@
+import { LoginState } from "@sensenet/client-core";
+import { User } from "@sensenet/default-content-types";
+
+/**
+ * This interface represents the summary of a session in the session manager
+ */
+export interface ISessionInfo {
+    /**
+     * The name of the session
+     */
+    name: string;
+
+    /**
+     * The URL of the repository that the session belongs to
+     */
+    repositoryUrl: string;
+
+    /**
+     * The current login state of the session
+     */
+    state: LoginState;
+
+    /**
+     * The current user of the session
+     */
+    user: User;
+
+    /**
+     * Indicates if the session is the active one
+     */
+    isActive: boolean;
+}
@@ -0,0 +1,11 @@
+/**
+ * Interface that provides the AES-GCM key for the encrypted token storage.
+ * Implement it to supply an application managed key, or use the IndexedDbKeyProvider.
+ */
+export interface ITokenEncryptionKeyProvider {
+    /**
+     * Returns the key that will be used to encrypt and decrypt the stored tokens
+     * @returns {Promise<CryptoKey>} An AES-GCM key with 'encrypt' and 'decrypt' usages
+     */
+    getKey(): Promise<CryptoKey>;
+}
@@ -15,7 +15,7 @@ export interface ITokenPayload {
     /**
      * audience: identifies the recipients that the token is intended for
      */
-    aud: string;
+    aud: string | string[];
 
     /**
      * expiration: time identifies the time whereupon the token will not be accepted
@@ -36,4 +36,9 @@ export interface ITokenPayload {
      * name: identifies the name of the user whom the token was issued to
      */
     name: string;
+
+    /**
+     * authentication time: identifies the time when the user has entered the credentials (it remains the same on token refresh)
+     */
+    auth_time?: number;
 }
@@ -0,0 +1,26 @@
+/**
+ * Interface that represents a persistent storage for the tokens. Implement it to store the tokens in a custom place
+ * (e.g. React Native AsyncStorage, IndexedDB or a file) and pass it to the JwtService's constructor.
+ */
+export interface ITokenStorageBackend {
+    /**
+     * Retrieves a stored value
+     * @param {string} key The key of the value
+     * @returns {Promise<string | null>} The stored value or null, if there is no value stored with the specified key
+     */
+    get(key: string): Promise<string | null>;
+
+    /**
+     * Stores a value
+     * @param {string} key The key of the value
+     * @param {string} value The value to store
+     * @param {Date} expiration The date when the stored value will be expired
+     */
+    set(key: string, value: string, expiration: Date): Promise<void>;
+
+    /**
+     * Removes a stored value
+     * @param {string} key The key of the value
+     */
+    remove(key: string): Promise<void>;
+}
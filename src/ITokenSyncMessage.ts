@@ -0,0 +1,22 @@
+import { TokenType } from "./TokenStore";
+
+/**
+ * This interface represents a token change notification that is shared between browser tabs
+ */
+export interface ITokenSyncMessage {
+    /**
+     * The URL of the related site
+     */
+    siteName: string;
+
+    /**
+     * The type of the changed token
+     */
+    tokenType: TokenType;
+
+    /**
+     * The new token in string format (base64 encoded, dot separated header and payload).
+     * Omitted for encrypted token stores: the receivers re-read the changed token from the shared storage backend instead.
+     */
+    token?: string;
+}
@@ -0,0 +1,20 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { ITokenSyncMessage } from "./ITokenSyncMessage";
+
+/**
+ * Interface that represents a channel that delivers token change messages to the other browser tabs
+ */
+export interface ITokenSyncTransport extends IDisposable {
+    /**
+     * Sends a message to the other participants. The message shouldn't be delivered back to the sender.
+     * @param {ITokenSyncMessage} message The message to send
+     */
+    send(message: ITokenSyncMessage): void;
+
+    /**
+     * Subscribes to the messages from the other participants
+     * @param {(message: ITokenSyncMessage) => void} callback The callback that will be called on each incoming message
+     * @returns {IDisposable} A disposable subscription
+     */
+    subscribe(callback: (message: ITokenSyncMessage) => void): IDisposable;
+}
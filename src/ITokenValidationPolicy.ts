@@ -0,0 +1,30 @@
+/**
+ * This interface represents the rules that a token should match to be accepted
+ */
+export interface ITokenValidationPolicy {
+    /**
+     * The expected issuer ('iss' claim). Not checked if not provided.
+     */
+    issuer?: string;
+
+    /**
+     * The allowed audiences. The token is accepted if its 'aud' claim contains at least one of them. Not checked if not provided.
+     */
+    audiences?: string | string[];
+
+    /**
+     * The expected subject ('sub' claim). Not checked if not provided.
+     */
+    subject?: string;
+
+    /**
+     * Tolerance in milliseconds for the time based ('exp', 'nbf' and 'iat') checks
+     * @default 0
+     */
+    clockSkewMs?: number;
+
+    /**
+     * The maximum age of the token in milliseconds, based on its 'iat' claim. Not checked if not provided.
+     */
+    maxAgeMs?: number;
+}
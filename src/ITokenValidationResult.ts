@@ -0,0 +1,21 @@
+import { ITokenPayload } from "./ITokenPayload";
+
+/**
+ * This interface represents the result of a token validation
+ */
+export interface ITokenValidationResult {
+    /**
+     * Indicates if the token is valid
+     */
+    isValid: boolean;
+
+    /**
+     * The claim that has failed the validation
+     */
+    failedClaim?: keyof ITokenPayload;
+
+    /**
+     * The reason of the failure
+     */
+    message?: string;
+}
@@ -0,0 +1,75 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { IClock } from "./IClock";
+
+/**
+ * Tracks the user activity and calls back when the user has been idle for a specified time
+ */
+export class IdleTracker implements IDisposable {
+
+    private timer?: any;
+    private idle = false;
+
+    /**
+     * @param {number} timeoutMs The callback will be called after this many milliseconds of inactivity
+     * @param {number} warningMs The warning callback will be called this many milliseconds before the timeout
+     * @param {() => void} onWarning Callback that will be called before the timeout
+     * @param {() => void} onTimeout Callback that will be called on timeout
+     * @param {IClock} clock The clock that is used for scheduling
+     */
+    constructor(private readonly timeoutMs: number,
+                private readonly warningMs: number,
+                private readonly onWarning: () => void,
+                private readonly onTimeout: () => void,
+                private readonly clock: IClock) {
+    }
+
+    /**
+     * Indicates if the user is idle (the warning period has been started or the time is up)
+     */
+    public get isIdle(): boolean {
+        return this.idle;
+    }
+
+    /**
+     * Records an activity and restarts the countdown
+     */
+    public touch() {
+        this.stop();
+        this.idle = false;
+        const warningMs = Math.min(Math.max(this.warningMs, 0), this.timeoutMs);
+        if (warningMs > 0) {
+            this.timer = this.clock.setTimeout(() => this.execWarning(warningMs), this.timeoutMs - warningMs);
+        } else {
+            this.timer = this.clock.setTimeout(() => this.execTimeout(), this.timeoutMs);
+        }
+    }
+
+    /**
+     * Stops the countdown
+     */
+    public stop() {
+        if (this.timer !== undefined) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Disposes the tracker, stops the countdown
+     */
+    public dispose() {
+        this.stop();
+    }
+
+    private execWarning(warningMs: number) {
+        this.idle = true;
+        this.timer = this.clock.setTimeout(() => this.execTimeout(), warningMs);
+        this.onWarning();
+    }
+
+    private execTimeout() {
+        this.idle = true;
+        this.timer = undefined;
+        this.onTimeout();
+    }
+}
@@ -0,0 +1,34 @@
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+
+/**
+ * Token storage backend that keeps the tokens in an in-memory map
+ */
+export class InMemoryStorageBackend implements ITokenStorageBackend {
+
+    private innerStore: Map<string, string> = new Map();
+
+    /**
+     * Retrieves the value from the map
+     * @param {string} key The key of the value
+     */
+    public async get(key: string): Promise<string | null> {
+        return this.innerStore.has(key) ? this.innerStore.get(key) as string : null;
+    }
+
+    /**
+     * Stores the value in the map
+     * @param {string} key The key of the value
+     * @param {string} value The value to store
+     */
+    public async set(key: string, value: string): Promise<void> {
+        this.innerStore.set(key, value);
+    }
+
+    /**
+     * Removes the value from the map
+     * @param {string} key The key of the value
+     */
+    public async remove(key: string): Promise<void> {
+        this.innerStore.delete(key);
+    }
+}
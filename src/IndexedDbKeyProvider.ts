@@ -0,0 +1,62 @@
+import { ITokenEncryptionKeyProvider } from "./ITokenEncryptionKeyProvider";
+
+const storeName = "keys";
+
+/**
+ * Provides a non-extractable AES-GCM key that is generated on the first access and persisted in IndexedDB.
+ * The key material can't be read by scripts, only used for encryption and decryption in the current origin.
+ */
+export class IndexedDbKeyProvider implements ITokenEncryptionKeyProvider {
+
+    /**
+     * @param {IDBFactory} indexedDbRef The IndexedDB factory, defaults to the global 'indexedDB' object
+     * @param {SubtleCrypto} subtle The WebCrypto SubtleCrypto implementation, defaults to 'crypto.subtle'
+     * @param {string} databaseName The name of the IndexedDB database
+     * @param {string} keyName The name of the key in the database
+     */
+    constructor(private readonly indexedDbRef: IDBFactory = indexedDB,
+                private readonly subtle: SubtleCrypto = crypto.subtle,
+                private readonly databaseName: string = "sn-token-encryption",
+                private readonly keyName: string = "default") {
+    }
+
+    /**
+     * Loads the key from IndexedDB or generates and stores a new one, if there is no stored key
+     */
+    public async getKey(): Promise<CryptoKey> {
+        const db = await this.openDatabase();
+        try {
+            const existing = await this.request<CryptoKey | undefined>(db.transaction(storeName, "readonly").objectStore(storeName).get(this.keyName));
+            if (existing) {
+                return existing;
+            }
+            const key = await this.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]) as CryptoKey;
+            try {
+                await this.request(db.transaction(storeName, "readwrite").objectStore(storeName).add(key, this.keyName));
+                return key;
+            } catch (err) {
+                // another tab may have stored its key in the meantime
+                const stored = await this.request<CryptoKey | undefined>(db.transaction(storeName, "readonly").objectStore(storeName).get(this.keyName));
+                if (stored) {
+                    return stored;
+                }
+                throw err;
+            }
+        } finally {
+            db.close();
+        }
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        const openRequest = this.indexedDbRef.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(storeName);
+        return this.request(openRequest);
+    }
+
+    private request<T>(request: IDBRequest): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
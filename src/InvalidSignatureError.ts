@@ -0,0 +1,7 @@
+import { TokenVerificationError } from "./TokenVerificationError";
+
+/**
+ * The token signature doesn't match, or there is no key to verify it with
+ */
+export class InvalidSignatureError extends TokenVerificationError {
+}
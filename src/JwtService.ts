@@ -1,27 +1,127 @@
 import { ConstantContent, IAuthenticationService, IODataParams, LoginState, Repository } from "@sensenet/client-core";
-import { ObservableValue, PathHelper } from "@sensenet/client-utils";
+import { IDisposable, ObservableValue, PathHelper } from "@sensenet/client-utils";
 import { User } from "@sensenet/default-content-types";
 import { Query } from "@sensenet/query";
+import { BroadcastChannelTransport } from "./BroadcastChannelTransport";
+import { ChallengeType } from "./ChallengeType";
+import { ConnectionState } from "./ConnectionState";
+import { installFetchWrapper } from "./FetchWrapper";
+import { IActiveSessionsResult } from "./IActiveSessionsResult";
+import { IAuthenticationEvent } from "./IAuthenticationEvent";
+import { IAuthenticationHooks } from "./IAuthenticationHooks";
+import { IClock } from "./IClock";
+import { IdleTracker } from "./IdleTracker";
+import { IIdleTimeoutOptions } from "./IIdleTimeoutOptions";
+import { IJwtServiceOptions } from "./IJwtServiceOptions";
+import { ILoginChallenge } from "./ILoginChallenge";
+import { ILoginChallengeResponse } from "./ILoginChallengeResponse";
 import { ILoginResponse } from "./ILoginResponse";
+import { ILoginResult } from "./ILoginResult";
 import { IOauthProvider } from "./IOauthProvider";
+import { IRefreshInterceptorOptions } from "./IRefreshInterceptorOptions";
 import { IRefreshResponse } from "./IRefreshResponse";
+import { IRefreshRetryOptions } from "./IRefreshRetryOptions";
+import { IServerRequestResult } from "./IServerRequestResult";
+import { ITokenPayload } from "./ITokenPayload";
+import { ITokenSyncTransport } from "./ITokenSyncTransport";
+import { ITokenValidationPolicy } from "./ITokenValidationPolicy";
+import { LoginResultReason } from "./LoginResultReason";
+import { ReauthenticationRequiredError } from "./ReauthenticationRequiredError";
+import { RefreshScheduler } from "./RefreshScheduler";
+import { SkewCompensatedClock } from "./SkewCompensatedClock";
+import { StorageEventTransport } from "./StorageEventTransport";
+import { SystemClock } from "./SystemClock";
 import { Token } from "./Token";
 import { TokenPersist } from "./TokenPersist";
 import { TokenStore } from "./TokenStore";
+import { TokenSync } from "./TokenSync";
+import { UserLoadState } from "./UserLoadState";
+
+/**
+ * The sensenet error code of a refresh response that indicates the reuse of a rotated refresh token
+ */
+const refreshTokenReusedErrorCode = "RefreshTokenReused";
+
+/**
+ * The HTTP methods of the requests that the refresh interceptor replays by default
+ */
+const defaultReplayMethods = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Default check of the refresh interceptor for the responses that indicate an expired or revoked access token
+ */
+const isTokenRejected = (response: Response) => {
+    if (response.status === 401) {
+        return true;
+    }
+    const authenticate = response.headers && response.headers.get("WWW-Authenticate");
+    return !!authenticate && /invalid_token|expired/i.test(authenticate);
+};
+
+/**
+ * The outcome of a single token refresh request
+ */
+interface IRefreshAttempt {
+    /**
+     * The response body of a successful refresh
+     */
+    json?: IRefreshResponse;
+
+    /**
+     * The HTTP status of the response
+     */
+    status?: number;
+
+    /**
+     * The network error
+     */
+    error?: any;
+
+    /**
+     * Indicates if the server has detected the reuse of a rotated refresh token
+     */
+    isReused: boolean;
+
+    /**
+     * The refresh token that has been sent
+     */
+    refreshToken: string;
+}
 
 /**
  * This service class manages the JWT authentication, the session and the current login state.
  */
 export class JwtService implements IAuthenticationService {
 
-    private readonly jwtTokenKeyTemplate: string = "sn-${siteName}-${tokenName}";
+    /**
+     * Additional rules (e.g. expected issuer and audiences) that the tokens should match to be accepted
+     */
+    public readonly validationPolicy: ITokenValidationPolicy = this.options.validationPolicy || {};
+
+    /**
+     * The name of the session. Services with different session names store their tokens separately, even for the same repository.
+     */
+    public readonly sessionName?: string = this.options.sessionName;
+
+    private readonly localClock: IClock = this.options.clock || new SystemClock();
+
+    private readonly jwtTokenKeyTemplate: string = this.sessionName ? `sn-\${siteName}-${this.sessionName}-\${tokenName}` : "sn-${siteName}-${tokenName}";
 
     /**
      * Disposes the service, the state and currentUser observables
      */
     public dispose() {
+        this.stopResume();
+        this.stopRefreshScheduler();
+        this.disableSessionSync();
+        this.disableIdleTimeout();
+        this.disableRefreshInterceptor();
         this.state.dispose();
         this.currentUser.dispose();
+        this.userLoadState.dispose();
+        this.events.dispose();
+        this.pendingChallenge.dispose();
+        this.connectionState.dispose();
         for (const provider of this.oauthProviders) {
             provider.dispose();
         }
@@ -32,98 +132,807 @@ export class JwtService implements IAuthenticationService {
      */
     public oauthProviders: Set<IOauthProvider> = new Set<IOauthProvider>();
 
+    /**
+     * The Oauth Providers, registered by name
+     */
+    private providersByName: Map<string, IOauthProvider> = new Map<string, IOauthProvider>();
+
+    /**
+     * Registers an Oauth Provider with a name, so that it can be used with loginWith()
+     * @param {string} name The name of the provider (e.g. 'google')
+     * @param {IOauthProvider} provider The provider instance
+     * @returns {IDisposable} Disposing it will unregister the provider (without disposing the provider itself)
+     */
+    public registerProvider(name: string, provider: IOauthProvider): IDisposable {
+        this.providersByName.set(name, provider);
+        this.oauthProviders.add(provider);
+        return {
+            dispose: () => {
+                if (this.providersByName.get(name) === provider) {
+                    this.providersByName.delete(name);
+                    this.oauthProviders.delete(provider);
+                }
+            },
+        };
+    }
+
+    /**
+     * Returns the provider that has been registered with the specified name
+     * @param {string} name The name of the provider
+     */
+    public getProvider(name: string): IOauthProvider | undefined {
+        return this.providersByName.get(name);
+    }
+
+    private currentProviderName?: string;
+    private challengeUsername = "";
+
+    /**
+     * The name of the provider that has created the current session (undefined in case of a username / password login or if there is no session)
+     */
+    public get sessionProviderName(): string | undefined {
+        return this.currentProviderName;
+    }
+
+    private get sessionProvider(): IOauthProvider | undefined {
+        return this.currentProviderName !== undefined ? this.providersByName.get(this.currentProviderName) : undefined;
+    }
+
     /**
      * Observable value that will update with the current user on user change
      */
     public currentUser: ObservableValue<User> = new ObservableValue<User>(ConstantContent.VISITOR_USER);
 
+    /**
+     * This observable indicates if the current user is being loaded, has been loaded or couldn't be loaded
+     * @default UserLoadState.Loaded
+     */
+    public userLoadState: ObservableValue<UserLoadState> = new ObservableValue(UserLoadState.Loaded);
+
+    /**
+     * If enabled, the current user will be loaded by the id from the 'sub' claim of the access token instead of a Domain and LoginName query.
+     * Tokens without a subject will be resolved with the query.
+     */
+    public loadUserBySubject: boolean = false;
+
     /**
      * This observable indicates the current state of the service
      * @default LoginState.Pending
      */
     public state: ObservableValue<LoginState> = new ObservableValue(LoginState.Pending);
 
+    /**
+     * Observable value that will be updated on each authentication lifecycle event (login, token refresh, session expiration, logout and storage errors)
+     * ```ts
+     * jwtService.events.subscribe((event) => {
+     *     if (event.type === "loginFailed") {
+     *         console.log("Login failed with status", event.status);
+     *     }
+     * });
+     * ```
+     */
+    public events: ObservableValue<IAuthenticationEvent> = new ObservableValue<IAuthenticationEvent>();
+
+    /**
+     * The multi-factor authentication challenge that has to be completed with completeChallenge() to finish the login.
+     * A defined value represents the 'ChallengeRequired' login status, as the state observable has no such value:
+     * a login that has been interrupted by a challenge remains Unauthenticated until the challenge has been completed.
+     * The value is undefined if there is no pending challenge.
+     */
+    public pendingChallenge: ObservableValue<ILoginChallenge | undefined> = new ObservableValue<ILoginChallenge | undefined>(undefined);
+
+    /**
+     * The clock that follows the server time. It is used for all token validity checks. The skew between the local and the server time
+     * is estimated from the Date header of the token responses and from the issued date of the freshly issued access tokens.
+     */
+    public readonly clock: SkewCompensatedClock = new SkewCompensatedClock(this.localClock);
+
+    private adjustClock(response: Response) {
+        const date = response.headers && response.headers.get("Date");
+        if (date) {
+            this.clock.adjust(new Date(date));
+        }
+    }
+
+    private adjustClockToToken(token: Token) {
+        // tokens without an issued date (e.g. the ones with the 0 default) can't be used for the estimation
+        if (token.GetClaim("iat")) {
+            this.clock.adjust(token.IssuedDate);
+        }
+    }
+
+    /**
+     * The registered lifecycle hooks
+     */
+    private hooks: Set<IAuthenticationHooks> = new Set<IAuthenticationHooks>();
+
+    /**
+     * Registers callbacks that will be executed before and after the login, token refresh and logout operations
+     * @param {IAuthenticationHooks} hooks The hooks to register
+     * @returns {IDisposable} Disposing it will unregister the hooks
+     */
+    public addHooks(hooks: IAuthenticationHooks): IDisposable {
+        this.hooks.add(hooks);
+        return {
+            dispose: () => {
+                this.hooks.delete(hooks);
+            },
+        };
+    }
+
+    private async runHooks<K extends keyof IAuthenticationHooks>(name: K, ...args: Parameters<NonNullable<IAuthenticationHooks[K]>>) {
+        for (const hooks of Array.from(this.hooks)) {
+            const hook = hooks[name] as undefined | ((...hookArgs: any[]) => void | Promise<void>);
+            if (hook) {
+                await hook.apply(hooks, args);
+            }
+        }
+    }
+
     /**
      * The store for JWT tokens
      */
     private tokenStore: TokenStore =
-        new TokenStore(this.repository.configuration.repositoryUrl, this.jwtTokenKeyTemplate, (this.repository.configuration.sessionLifetime === "session") ? TokenPersist.Session : TokenPersist.Expiration);
+        new TokenStore(this.repository.configuration.repositoryUrl, this.jwtTokenKeyTemplate, (this.repository.configuration.sessionLifetime === "session") ? TokenPersist.Session : TokenPersist.Expiration,
+            undefined, undefined, undefined, this.options.storageBackend, this.options.cookieOptions);
+
+    /**
+     * Returns a promise that will be resolved when the token changes have been persisted to the storage backend
+     */
+    public async flushTokens(): Promise<void> {
+        await this.tokenStore.flush();
+    }
+
+    /**
+     * Returns the current access token. The payload type can be specified to access custom claims in a typed way.
+     * ```ts
+     * const tenant = jwtService.getAccessToken<IMyPayload>().GetClaim("tenant");
+     * ```
+     */
+    public getAccessToken<TPayload extends ITokenPayload = ITokenPayload>(): Token<TPayload> {
+        return this.tokenStore.AccessToken as Token<any>;
+    }
 
     /**
      * Executed before each Ajax call. If the access token has been expired, but the refresh token is still valid, it triggers the token refreshing call
      * @returns {Promise<boolean>} Promise with a boolean that indicates if there was a refresh triggered.
      */
     public async checkForUpdate(): Promise<boolean> {
-        const now = new Date();
-        if (this.tokenStore.AccessToken.IsValid()) {
+        await this.tokenStore.ready;
+        const now = this.clock.now();
+        if (this.isTokenValid(this.tokenStore.AccessToken)) {
             if ((this.tokenStore.AccessToken.ExpirationTime.getTime() - this.latencyCompensationMs) > now.getTime()) {
                 this.state.setValue(LoginState.Authenticated);
                 return false;
             }
         }
-        await this.tokenStore.RefreshToken.AwaitNotBeforeTime();
-        if (!this.tokenStore.RefreshToken.IsValid()) {
+        if (this.pendingRefresh) {
+            return await this.pendingRefresh;
+        }
+        await this.tokenStore.RefreshToken.AwaitNotBeforeTime(this.clock);
+        if (this.pendingRefresh) {
+            return await this.pendingRefresh;
+        }
+        if (!this.canRefresh()) {
+            if (!this.tokenStore.RefreshToken.IsEmpty && this.state.getValue() !== LoginState.Unauthenticated) {
+                this.events.setValue({ type: "sessionExpired" });
+            }
             this.state.setValue(LoginState.Unauthenticated);
             return false;
         }
         this.state.setValue(LoginState.Pending);
-        return await this.execTokenRefresh();
+        return await this.refreshOnce();
     }
 
     /**
-     * Executes the token refresh call. Refresh the token in the Token Store and in the Service, updates the HttpService header
+     * Validates the token against the configured validation policy
+     */
+    private isTokenValid(token: Token, excludeNotBefore: boolean = false): boolean {
+        return token.Validate(this.validationPolicy, excludeNotBefore, this.clock).isValid;
+    }
+
+    /**
+     * Indicates if the server has rejected the refresh in HttpOnly refresh token mode (or the user has logged out)
+     */
+    private refreshRejected = false;
+
+    /**
+     * Indicates if a token refresh can be attempted. In HttpOnly refresh token mode the refresh token is not available on the client,
+     * so the refresh will be attempted until the server rejects it.
+     */
+    private canRefresh(): boolean {
+        return this.tokenStore.httpOnlyRefreshToken ? !this.refreshRejected : this.isTokenValid(this.tokenStore.RefreshToken);
+    }
+
+    /**
+     * The in-flight token refresh promise, shared between the concurrent callers of checkForUpdate()
+     */
+    private pendingRefresh?: Promise<boolean>;
+
+    /**
+     * Starts a token refresh if there is none in progress, otherwise returns the in-flight one.
+     * The shared promise is released when it settles, so every waiting caller gets the same result or error.
+     */
+    private refreshOnce(): Promise<boolean> {
+        if (!this.pendingRefresh) {
+            this.pendingRefresh = this.execTokenRefresh().then((result) => {
+                this.pendingRefresh = undefined;
+                return result;
+            }, (error) => {
+                this.pendingRefresh = undefined;
+                throw error;
+            });
+        }
+        return this.pendingRefresh;
+    }
+
+    /**
+     * Executes the token refresh call. Refresh the token in the Token Store and in the Service, updates the HttpService header.
+     * Transient failures (network errors, HTTP 5xx, 408 and 429 responses) will be retried with an exponential backoff, the other HTTP errors (e.g. 401, 403 or 400) end the session.
      * @returns {Promise<boolean>} An promise that will be completed with true on a succesfull refresh
      */
     private async execTokenRefresh(): Promise<boolean> {
-        const response = await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/refresh"),
-            {
-                method: "POST",
-                headers: {
-                    "X-Refresh-Data": this.tokenStore.RefreshToken.toString(),
-                    "X-Authentication-Type": "Token",
-                },
-                cache: "no-cache",
-                credentials: "include",
-            }, false);
+        await this.runHooks("beforeRefresh");
+        let attempt = await this.sendRefreshRequest();
+        for (let retry = 0; this.isTransientFailure(attempt) && retry < this.refreshRetryOptions.maxRetries; retry++) {
+            if (!await this.waitForRetry(this.getRetryDelay(retry)) || !this.canRefresh()) {
+                // the retries have been cancelled by a login, a logout or by dispose()
+                await this.runHooks("afterRefresh", false);
+                return false;
+            }
+            attempt = await this.sendRefreshRequest();
+        }
+        if (attempt.isReused && await this.hasBeenRotatedElsewhere(attempt.refreshToken)) {
+            // another instance that shares the storage (e.g. another tab) has rotated the refresh token, the refresh is repeated with its token
+            attempt = await this.sendRefreshRequest();
+        }
+        const { json, status, error, isReused } = attempt;
 
-        if (response.ok) {
-            const json: IRefreshResponse = await response.json();
-            this.tokenStore.AccessToken = Token.FromHeadAndPayload(json.access);
+        if (json) {
+            this.tokenStore.SetTokens(json.refresh ? {
+                access: Token.FromHeadAndPayload(json.access),
+                refresh: Token.FromHeadAndPayload(json.refresh),
+            } : {
+                access: Token.FromHeadAndPayload(json.access),
+            });
+            this.stopResume();
+            this.connectionState.setValue(ConnectionState.Online);
+            this.rescheduleRefresh();
             this.state.setValue(LoginState.Authenticated);
+            this.events.setValue({ type: "tokenRefreshed" });
+        } else if (isReused) {
+            // the refresh token family has been revoked by the server, none of the tokens can be trusted anymore
+            this.refreshRejected = true;
+            this.tokenStore.SetTokens({ access: Token.CreateEmpty(), refresh: Token.CreateEmpty() });
+            this.state.setValue(LoginState.Unauthenticated);
+            this.events.setValue({ type: "refreshTokenReused", status });
+        } else if (this.isTransientFailure(attempt)) {
+            // the session is kept, the refresh will be resumed later (unless the session has been ended during the retries)
+            if (this.canRefresh()) {
+                this.connectionState.setValue(error !== undefined ? ConnectionState.Offline : ConnectionState.Degraded);
+                this.state.setValue(LoginState.Authenticated);
+                this.startResume();
+            }
+            this.events.setValue(error !== undefined ? { type: "refreshFailed", error } : { type: "refreshFailed", status });
         } else {
+            this.refreshRejected = true;
             this.tokenStore.AccessToken = Token.CreateEmpty();
             this.state.setValue(LoginState.Unauthenticated);
+            this.events.setValue({ type: "refreshFailed", status });
         }
+        await this.runHooks("afterRefresh", json !== undefined);
         return true;
     }
 
-    private async updateUser() {
-        const lastUser = this.currentUser.getValue();
-        if (this.state.getValue() === LoginState.Unauthenticated) {
-            this.currentUser.setValue(ConstantContent.VISITOR_USER);
-        } else if (this.state.getValue() === LoginState.Authenticated && this.tokenStore.AccessToken.Username !== `${lastUser.Domain}\\${lastUser.LoginName}`) {
-            const [domain, loginName] = this.tokenStore.AccessToken.Username.split("\\");
-            const response = await this.repository.loadCollection<User>({
-                path: "Root",
-                oDataOptions: {
-                    ...this.userLoadOptions,
-                    query: new Query((q) => q.typeIs<User>(User).and.equals("Domain", domain).and.equals("LoginName", loginName)).toString(),
-                },
+    /**
+     * Sends a single refresh request to the session provider or to the 'sn-token/refresh' endpoint
+     */
+    private async sendRefreshRequest(): Promise<IRefreshAttempt> {
+        const refreshToken = this.tokenStore.RefreshToken.toString();
+        try {
+            const provider = this.sessionProvider;
+            if (provider && provider.refresh) {
+                return { json: await provider.refresh(refreshToken), isReused: false, refreshToken };
+            }
+            const response = await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/refresh"),
+                {
+                    method: "POST",
+                    headers: this.tokenStore.httpOnlyRefreshToken ? { "X-Authentication-Type": "Token" } : {
+                        "X-Refresh-Data": refreshToken,
+                        "X-Authentication-Type": "Token",
+                    },
+                    cache: "no-cache",
+                    credentials: "include",
+                }, false);
+            this.adjustClock(response);
+            return response.ok ? { json: await response.json(), status: response.status, isReused: false, refreshToken }
+                : { status: response.status, isReused: await this.isRefreshTokenReuse(response), refreshToken };
+        } catch (error) {
+            return { error, isReused: false, refreshToken };
+        }
+    }
+
+    /**
+     * Network errors, HTTP 5xx, 408 (Request Timeout) and 429 (Too Many Requests) responses are considered as transient refresh failures
+     */
+    private isTransientFailure(attempt: IRefreshAttempt): boolean {
+        return !attempt.json && (attempt.error !== undefined || (attempt.status !== undefined && (attempt.status >= 500 || attempt.status === 408 || attempt.status === 429)));
+    }
+
+    /**
+     * Checks if the storage backend holds a different refresh token than the one that has been reported as reused
+     */
+    private async hasBeenRotatedElsewhere(sentRefreshToken: string): Promise<boolean> {
+        if (this.tokenStore.httpOnlyRefreshToken) {
+            return false;
+        }
+        const storedToken = await this.tokenStore.ReloadToken("refresh");
+        return !storedToken.IsEmpty && storedToken.toString() !== sentRefreshToken;
+    }
+
+    /**
+     * Checks if the server has rejected the refresh request because a rotated (already used) refresh token has been sent
+     */
+    private async isRefreshTokenReuse(response: Response): Promise<boolean> {
+        try {
+            const body = await response.json();
+            return body.error.code === refreshTokenReusedErrorCode;
+        } catch (error) {
+            /** the response has no sensenet error body */
+            return false;
+        }
+    }
+
+    /**
+     * Observable value that indicates if the tokens can be refreshed. It will be Offline or Degraded after the retries of a transient refresh failure
+     * have been exhausted, and Online again after the next successful refresh.
+     */
+    public connectionState: ObservableValue<ConnectionState> = new ObservableValue(ConnectionState.Online);
+
+    private refreshRetryOptions = {
+        maxRetries: 3,
+        initialDelayMs: 1000,
+        maxDelayMs: 30000,
+        onlineEventTarget: (typeof window === "object" ? window : undefined) as IRefreshRetryOptions["onlineEventTarget"],
+    };
+
+    private refreshRetryClock: IClock = this.localClock;
+
+    private resumeTimer?: any;
+
+    private cancelRetry?: () => void;
+
+    private removeOnlineListener?: () => void;
+
+    /**
+     * Configures the retries of the transient token refresh failures (network errors, HTTP 5xx, 408 and 429 responses)
+     * @param {IRefreshRetryOptions} options The retry options, the omitted values remain unchanged
+     * @param {IClock} clock The clock that is used for the delays (used by unit tests)
+     */
+    public configureRefreshRetry(options: IRefreshRetryOptions, clock: IClock = this.localClock) {
+        this.refreshRetryOptions = { ...this.refreshRetryOptions, ...options };
+        this.refreshRetryClock = clock;
+    }
+
+    private getRetryDelay(retry: number): number {
+        return Math.min(this.refreshRetryOptions.initialDelayMs * Math.pow(2, retry), this.refreshRetryOptions.maxDelayMs);
+    }
+
+    /**
+     * Waits for the next retry
+     * @returns {Promise<boolean>} A promise that will be resolved with false if the wait has been cancelled with stopResume()
+     */
+    private waitForRetry(delayMs: number): Promise<boolean> {
+        return new Promise<boolean>((resolve) => {
+            const timer = this.refreshRetryClock.setTimeout(() => {
+                this.cancelRetry = undefined;
+                resolve(true);
+            }, delayMs);
+            this.cancelRetry = () => {
+                this.refreshRetryClock.clearTimeout(timer);
+                resolve(false);
+            };
+        });
+    }
+
+    /**
+     * Resumes the refresh after the maximum retry delay or immediately when the connectivity returns
+     */
+    private startResume() {
+        this.stopResume();
+        const resume = () => {
+            this.stopResume();
+            if (this.canRefresh()) {
+                this.refreshOnce().catch(() => undefined);
+            }
+        };
+        this.resumeTimer = this.refreshRetryClock.setTimeout(resume, this.refreshRetryOptions.maxDelayMs);
+        const target = this.refreshRetryOptions.onlineEventTarget;
+        if (target) {
+            target.addEventListener("online", resume);
+            this.removeOnlineListener = () => target.removeEventListener("online", resume);
+        }
+    }
+
+    /**
+     * Cancels the pending retry and the scheduled resume
+     */
+    private stopResume() {
+        if (this.cancelRetry) {
+            this.cancelRetry();
+            this.cancelRetry = undefined;
+        }
+        if (this.resumeTimer !== undefined) {
+            this.refreshRetryClock.clearTimeout(this.resumeTimer);
+            this.resumeTimer = undefined;
+        }
+        if (this.removeOnlineListener) {
+            this.removeOnlineListener();
+            this.removeOnlineListener = undefined;
+        }
+    }
+
+    /**
+     * The optional background refresh scheduler
+     */
+    private refreshScheduler?: RefreshScheduler;
+
+    /**
+     * Starts refreshing the access token in the background before it expires (based on its ExpirationTime and the latency compensation),
+     * so that a returning idle client won't have to wait for a blocking refresh. The refresh will be rescheduled after each refresh or login.
+     * @param {IClock} clock The clock that is used for scheduling (used by unit tests)
+     */
+    public startRefreshScheduler(clock: IClock = this.localClock) {
+        this.stopRefreshScheduler();
+        // the expiration time is converted to the local time of the timers
+        this.refreshScheduler = new RefreshScheduler(() => this.clock.toLocalTime(this.tokenStore.AccessToken.ExpirationTime), () => this.execBackgroundRefresh(), this.latencyCompensationMs, clock);
+        this.refreshScheduler.schedule();
+    }
+
+    /**
+     * Stops the background refresh scheduler
+     */
+    public stopRefreshScheduler() {
+        if (this.refreshScheduler) {
+            this.refreshScheduler.dispose();
+            this.refreshScheduler = undefined;
+        }
+    }
+
+    private rescheduleRefresh() {
+        if (this.refreshScheduler) {
+            this.refreshScheduler.schedule();
+        }
+    }
+
+    private async execBackgroundRefresh(): Promise<boolean> {
+        if (!this.canRefresh()) {
+            return false;
+        }
+        if (this.idleTracker && this.idleTimeoutOptions && this.idleTimeoutOptions.stopRefreshWhenIdle && this.idleTracker.isIdle) {
+            return false;
+        }
+        return await this.refreshOnce();
+    }
+
+    /**
+     * The optional cross-tab session synchronization
+     */
+    private tokenSync?: TokenSync;
+
+    /**
+     * Shares the token changes with the other browser tabs (and JwtService instances) that use the same repository URL.
+     * The state will be updated immediately on a remote login, refresh or logout.
+     * @param {ITokenSyncTransport} transport The transport for the messages. Defaults to a BroadcastChannel if available, otherwise localStorage 'storage' events will be used.
+     */
+    public enableSessionSync(transport: ITokenSyncTransport = (typeof BroadcastChannel === "function") ? new BroadcastChannelTransport() : new StorageEventTransport()) {
+        this.disableSessionSync();
+        this.tokenSync = new TokenSync(this.sessionName ? `${this.repository.configuration.repositoryUrl}#${this.sessionName}` : this.repository.configuration.repositoryUrl, this.tokenStore, transport, () => this.handleRemoteTokenChange());
+    }
+
+    /**
+     * Stops the cross-tab session synchronization
+     */
+    public disableSessionSync() {
+        if (this.tokenSync) {
+            this.tokenSync.dispose();
+            this.tokenSync = undefined;
+        }
+    }
+
+    /**
+     * The optional idle tracker
+     */
+    private idleTracker?: IdleTracker;
+    private idleTimeoutOptions?: IIdleTimeoutOptions;
+    private idleFetchWrapper?: IDisposable;
+
+    /**
+     * Logs out the user automatically after the specified time of inactivity, regardless of the lifetime of the refresh token.
+     * The activities will be recorded from the outgoing repository.fetch() calls (unless disabled), from the logins and from the explicit touch() calls.
+     * The requests of the service to the token endpoints (e.g. the background token refresh) are not considered as activities.
+     * @param {IIdleTimeoutOptions} options The timeout options
+     * @param {IClock} clock The clock that is used for scheduling (used by unit tests)
+     */
+    public enableIdleTimeout(options: IIdleTimeoutOptions, clock: IClock = this.localClock) {
+        this.disableIdleTimeout();
+        this.idleTimeoutOptions = options;
+        this.idleTracker = new IdleTracker(options.timeoutMs, options.warningMs || 0, () => this.handleIdleWarning(), () => this.handleIdleTimeout(), clock);
+        if (options.trackRequests !== false) {
+            this.idleFetchWrapper = installFetchWrapper(this.repository, (next) => (...args: Parameters<Repository["fetch"]>) => {
+                if (this.state.getValue() !== LoginState.Unauthenticated && !this.isTokenEndpointRequest(args[0])) {
+                    this.touch();
+                }
+                return next(...args);
             });
-            this.currentUser.setValue(response.d.results[0]);
+        }
+        this.idleTracker.touch();
+    }
+
+    /**
+     * Disables the idle timeout
+     */
+    public disableIdleTimeout() {
+        if (this.idleTracker) {
+            this.idleTracker.dispose();
+            this.idleTracker = undefined;
+            this.idleTimeoutOptions = undefined;
+        }
+        if (this.idleFetchWrapper) {
+            this.idleFetchWrapper.dispose();
+            this.idleFetchWrapper = undefined;
         }
     }
 
+    /**
+     * Records a user activity and restarts the idle timeout countdown (if the idle timeout is enabled)
+     */
+    public touch() {
+        if (this.idleTracker) {
+            this.idleTracker.touch();
+        }
+    }
+
+    private handleIdleWarning() {
+        if (this.state.getValue() === LoginState.Authenticated) {
+            this.events.setValue({ type: "idleWarning" });
+        }
+    }
+
+    private async handleIdleTimeout() {
+        if (this.state.getValue() !== LoginState.Unauthenticated) {
+            this.events.setValue({ type: "idleTimeout" });
+            try {
+                await this.logout();
+            } catch (error) {
+                // the idle timeout shouldn't cause an unhandled rejection, the failure is up to the logout hooks and events
+            }
+        }
+    }
+
+    private refreshInterceptor?: IDisposable;
+
+    /**
+     * Intercepts the repository.fetch() calls: if a request has been rejected because of an expired or revoked access token (e.g. the token
+     * has been revoked on the server or the clocks differ), the tokens will be refreshed once and the request will be replayed once.
+     * Only the requests with replayable methods and bodies will be replayed (streamed bodies can't be sent again) and the token requests of the service are never replayed.
+     * @param {IRefreshInterceptorOptions} options The replay rules
+     */
+    public enableRefreshInterceptor(options: IRefreshInterceptorOptions = {}) {
+        this.disableRefreshInterceptor();
+        this.refreshInterceptor = installFetchWrapper(this.repository, (next) => async (info: RequestInfo, init?: RequestInit, awaitReadyState: boolean = true) => {
+            if (!this.isReplayable(info, init, options)) {
+                return await next(info, init, awaitReadyState);
+            }
+            if (awaitReadyState) {
+                await this.repository.awaitReadyState();
+            }
+            // a Request can be sent only once, a clone is kept for the replay
+            const replayInfo = typeof info === "string" ? info : info.clone();
+            const sentToken = this.tokenStore.AccessToken.toString();
+            const response = await next(info, init, false);
+            if (!(options.isTokenRejected || isTokenRejected)(response) || !await this.refreshRejectedToken(sentToken)) {
+                return response;
+            }
+            return await next(replayInfo, this.withCurrentAccessToken(init), false);
+        });
+    }
+
+    /**
+     * Disables the refresh interceptor
+     */
+    public disableRefreshInterceptor() {
+        if (this.refreshInterceptor) {
+            this.refreshInterceptor.dispose();
+            this.refreshInterceptor = undefined;
+        }
+    }
+
+    /**
+     * Indicates if the request has been sent to one of the token endpoints of the service (e.g. a login or a token refresh request)
+     */
+    private isTokenEndpointRequest(info: RequestInfo): boolean {
+        const url = typeof info === "string" ? info : info.url;
+        return url.indexOf(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token")) === 0;
+    }
+
+    private isReplayable(info: RequestInfo, init: RequestInit | undefined, options: IRefreshInterceptorOptions): boolean {
+        const method = ((init && init.method) || (typeof info !== "string" && info.method) || "GET").toUpperCase();
+        if ((options.replayMethods || defaultReplayMethods).map((m) => m.toUpperCase()).indexOf(method) === -1) {
+            return false;
+        }
+        // streamed bodies can be read only once
+        const body: any = init && init.body;
+        if (body && typeof body.getReader === "function") {
+            return false;
+        }
+        if (typeof info !== "string" && (info.bodyUsed || typeof info.clone !== "function")) {
+            return false;
+        }
+        return !this.isTokenEndpointRequest(info);
+    }
+
+    /**
+     * Refreshes the tokens after a rejected request, unless they have been refreshed since the request has been sent
+     * @returns {Promise<boolean>} true if there is a new, valid access token for the replay
+     */
+    private async refreshRejectedToken(sentToken: string): Promise<boolean> {
+        if (this.tokenStore.AccessToken.toString() === sentToken) {
+            if (!this.canRefresh()) {
+                return false;
+            }
+            try {
+                await this.refreshOnce();
+            } catch (error) {
+                // the failure is up to the refresh events, the original response will be returned
+                return false;
+            }
+        }
+        return this.tokenStore.AccessToken.toString() !== sentToken && this.isTokenValid(this.tokenStore.AccessToken);
+    }
+
+    /**
+     * Replaces the access token in the headers of a request that will be replayed
+     */
+    private withCurrentAccessToken(init?: RequestInit): RequestInit | undefined {
+        const headers: any = init && init.headers;
+        const accessData = this.tokenStore.AccessToken.toString();
+        if (headers && typeof headers.has === "function" && headers.has("X-Access-Data")) {
+            const replayHeaders = new Headers(headers);
+            replayHeaders.set("X-Access-Data", accessData);
+            return { ...init, headers: replayHeaders };
+        }
+        if (headers && !Array.isArray(headers) && headers["X-Access-Data"] !== undefined) {
+            return { ...init, headers: { ...headers, "X-Access-Data": accessData } };
+        }
+        return init;
+    }
+
+    private handleRemoteTokenChange() {
+        if (this.isTokenValid(this.tokenStore.AccessToken)) {
+            this.rescheduleRefresh();
+            this.state.setValue(LoginState.Authenticated);
+        } else if (this.tokenStore.httpOnlyRefreshToken ? this.tokenStore.AccessToken.IsEmpty : !this.isTokenValid(this.tokenStore.RefreshToken)) {
+            // in HttpOnly refresh token mode the access token is removed only on logout or on a rejected refresh
+            this.refreshRejected = this.tokenStore.httpOnlyRefreshToken;
+            if (this.refreshScheduler) {
+                this.refreshScheduler.stop();
+            }
+            this.state.setValue(LoginState.Unauthenticated);
+        }
+    }
+
+    private userLoadVersion = 0;
+
+    /**
+     * The loaded users, by token subject (or by username, if the token has no subject)
+     */
+    private userCache: Map<string, User> = new Map<string, User>();
+
+    /**
+     * Reloads the current user from the repository, bypassing the cache (e.g. after the user content has been modified)
+     */
+    public async reloadUser(): Promise<void> {
+        this.userCache.delete(this.getUserKey(this.tokenStore.AccessToken));
+        await this.updateUser(true);
+    }
+
+    private getUserKey(token: Token): string {
+        return token.GetClaim("sub") || token.Username;
+    }
+
+    private isCurrentUser(token: Token): boolean {
+        const user = this.currentUser.getValue();
+        const subject = token.GetClaim("sub");
+        return this.loadUserBySubject && subject ? user.Id !== undefined && user.Id.toString() === subject : token.Username === `${user.Domain}\\${user.LoginName}`;
+    }
+
+    private async updateUser(force: boolean = false) {
+        // the results of the earlier loads will be dropped
+        const version = ++this.userLoadVersion;
+        const state = this.state.getValue();
+        if (state === LoginState.Unauthenticated) {
+            this.currentUser.setValue(ConstantContent.VISITOR_USER);
+            this.userLoadState.setValue(UserLoadState.Loaded);
+            return;
+        }
+        const token = this.tokenStore.AccessToken;
+        // the session can be kept without an access token (e.g. while the refresh endpoint is offline)
+        if (state !== LoginState.Authenticated || token.IsEmpty || (!force && this.isCurrentUser(token))) {
+            return;
+        }
+        const key = this.getUserKey(token);
+        const cachedUser = this.userCache.get(key);
+        if (cachedUser) {
+            this.currentUser.setValue(cachedUser);
+            this.userLoadState.setValue(UserLoadState.Loaded);
+            return;
+        }
+        this.userLoadState.setValue(UserLoadState.Loading);
+        try {
+            const user = await this.loadUser(token);
+            if (version === this.userLoadVersion) {
+                this.userCache.set(key, user);
+                this.currentUser.setValue(user);
+                this.userLoadState.setValue(UserLoadState.Loaded);
+            }
+        } catch (error) {
+            if (version === this.userLoadVersion) {
+                // the previous user shouldn't remain available
+                this.currentUser.setValue(ConstantContent.VISITOR_USER);
+                this.userLoadState.setValue(UserLoadState.Error);
+                this.events.setValue({ type: "userLoadFailed", error });
+            }
+        }
+    }
+
+    private async loadUser(token: Token): Promise<User> {
+        const subject = token.GetClaim("sub");
+        if (this.loadUserBySubject && subject) {
+            const idOrPath = isNaN(Number(subject)) ? subject : Number(subject);
+            const response = await this.repository.load<User>({ idOrPath, oDataOptions: this.userLoadOptions });
+            if (!response || !response.d) {
+                throw Error(`The user with the id '${subject}' has not been found`);
+            }
+            return response.d;
+        }
+        const [domain, loginName] = token.Username.split("\\");
+        const collection = await this.repository.loadCollection<User>({
+            path: "Root",
+            oDataOptions: {
+                ...this.userLoadOptions,
+                query: new Query((q) => q.typeIs<User>(User).and.equals("Domain", domain).and.equals("LoginName", loginName)).toString(),
+            },
+        });
+        const user = collection && collection.d && collection.d.results[0];
+        if (!user) {
+            throw Error(`The user '${token.Username}' has not been found`);
+        }
+        return user;
+    }
+
     /**
      * @param {BaseRepository} _repository the Repository reference for the Authentication. The service will read its configuration and use its HttpProvider
+     * @param {IODataParams<User>} userLoadOptions OData options for loading the current user
+     * @param {number} latencyCompensationMs The access token will be refreshed this many milliseconds before it expires
+     * @param {IJwtServiceOptions} options Optional settings: the token storage backend, the validation policy, the session name, the cookie options and the clock
      * @constructs JwtService
      */
-    constructor(public readonly repository: Repository, private readonly userLoadOptions: IODataParams<User> = { select: "all" }, private readonly latencyCompensationMs: number = 5000) {
+    constructor(public readonly repository: Repository,
+                private readonly userLoadOptions: IODataParams<User> = { select: "all" },
+                private readonly latencyCompensationMs: number = 5000,
+                private readonly options: IJwtServiceOptions = {}) {
         this.repository.authentication = this;
         this.state.subscribe((state) => {
+            if (state === LoginState.Unauthenticated) {
+                this.currentProviderName = undefined;
+            }
             this.updateUser();
         });
-        this.checkForUpdate();
+        this.tokenStore.storageError.subscribe((error) => this.events.setValue({ type: "storageError", error }));
+        this.checkForUpdate().catch(() => {
+            /** the initial refresh runs in the background, its failures are reflected by the state and the events */
+        });
     }
 
     /**
@@ -131,9 +940,17 @@ export class JwtService implements IAuthenticationService {
      * @param {LoginResponse} response
      */
     public handleAuthenticationResponse(response: ILoginResponse): boolean {
-        this.tokenStore.AccessToken = Token.FromHeadAndPayload(response.access);
-        this.tokenStore.RefreshToken = Token.FromHeadAndPayload(response.refresh);
-        if (this.tokenStore.AccessToken.IsValid(true)) {
+        const access = Token.FromHeadAndPayload(response.access);
+        this.adjustClockToToken(access);
+        this.tokenStore.SetTokens({
+            access,
+            refresh: response.refresh ? Token.FromHeadAndPayload(response.refresh) : Token.CreateEmpty(),
+        });
+        this.refreshRejected = false;
+        this.stopResume();
+        this.connectionState.setValue(ConnectionState.Online);
+        this.rescheduleRefresh();
+        if (this.isTokenValid(this.tokenStore.AccessToken, true)) {
             return true;
         }
         return false;
@@ -160,47 +977,512 @@ export class JwtService implements IAuthenticationService {
      * ```
      */
     public async login(username: string, password: string): Promise<boolean> {
+        const result = await this.loginWithResult(username, password);
+        return result.success;
+    }
+
+    /**
+     * Logs in the user the same way as login(), but resolves with a detailed result that contains the reason of a failure,
+     * the HTTP status and the error message from the sensenet error response.
+     * @param username {string} Name of the user.
+     * @param password {string} Password of the user.
+     * @returns {Promise<ILoginResult>} Returns a Promise that will resolved with the detailed login result.
+     * ```ts
+     * const result = await service.loginWithResult("alba", "alba");
+     * if (result.reason === LoginResultReason.InvalidCredentials) {
+     *     console.log("Wrong username or password", result.message);
+     * }
+     * ```
+     */
+    public async loginWithResult(username: string, password: string): Promise<ILoginResult> {
+        await this.runHooks("beforeLogin", username);
+        this.pendingChallenge.setValue(undefined);
         this.state.setValue(LoginState.Pending);
         const authToken: string = new Buffer(`${username}:${password}`).toString("base64");
-        const response = await this.repository.fetch(
-            PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/login"),
-            {
+        let response: Response;
+        try {
+            response = await this.repository.fetch(
+                PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/login"),
+                {
+                    method: "POST",
+                    headers: {
+                        "X-Authentication-Type": "Token",
+                        "Authorization": `Basic ${authToken}`,
+                    },
+                    cache: "no-cache",
+                    credentials: "include",
+                },
+                false,
+            );
+        } catch (error) {
+            this.state.setValue(LoginState.Unauthenticated);
+            this.events.setValue({ type: "loginFailed", error });
+            await this.runHooks("afterLogin", false);
+            return { success: false, reason: LoginResultReason.NetworkError, error };
+        }
+        this.adjustClock(response);
+
+        let result: ILoginResult;
+        const json = response.ok ? await this.readLoginResponse(response) : undefined;
+        if (json) {
+            if ("challenge" in json) {
+                this.challengeUsername = username;
+                this.pendingChallenge.setValue(json.challenge);
+                this.state.setValue(LoginState.Unauthenticated);
+                this.events.setValue({ type: "challengeRequired" });
+                await this.runHooks("afterLogin", false);
+                return { success: false, reason: LoginResultReason.ChallengeRequired, status: response.status, challenge: json.challenge };
+            }
+            result = await this.handleLoginResponse(json, response.status);
+        } else {
+            this.state.setValue(LoginState.Unauthenticated);
+            result = response.ok ? this.getInvalidResponseFailure(response) : await this.getLoginFailure(response);
+        }
+        this.events.setValue(result.success ? { type: "loginSucceeded" } : { type: "loginFailed", status: response.status });
+        await this.runHooks("afterLogin", result.success);
+        return result;
+    }
+
+    /**
+     * Completes the pending multi-factor authentication challenge and finishes the login.
+     * The challenge remains pending if the code is not accepted, so it can be retried.
+     * @param code {string} The code from the authenticator app, from the email or one of the recovery codes
+     * @param type {ChallengeType} The type of the code, if it differs from the requested one (e.g. a recovery code)
+     * @returns {Promise<ILoginResult>} Returns a Promise that will resolved with the detailed login result.
+     * ```ts
+     * const result = await service.loginWithResult("alba", "alba");
+     * if (result.reason === LoginResultReason.ChallengeRequired) {
+     *     const challengeResult = await service.completeChallenge(await askForCode(result.challenge));
+     * }
+     * ```
+     */
+    public async completeChallenge(code: string, type?: ChallengeType): Promise<ILoginResult> {
+        const challenge = this.pendingChallenge.getValue();
+        if (!challenge) {
+            throw Error("There is no pending login challenge");
+        }
+        await this.runHooks("beforeLogin", this.challengeUsername);
+        this.state.setValue(LoginState.Pending);
+        let response: Response;
+        try {
+            response = await this.repository.fetch(
+                PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/challenge"),
+                {
+                    method: "POST",
+                    headers: {
+                        "X-Authentication-Type": "Token",
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({ token: challenge.token, type: type || challenge.type, code }),
+                    cache: "no-cache",
+                    credentials: "include",
+                },
+                false,
+            );
+        } catch (error) {
+            this.state.setValue(LoginState.Unauthenticated);
+            this.events.setValue({ type: "loginFailed", error });
+            await this.runHooks("afterLogin", false);
+            return { success: false, reason: LoginResultReason.NetworkError, error };
+        }
+        this.adjustClock(response);
+
+        let result: ILoginResult;
+        const json = response.ok ? await this.readLoginResponse(response) : undefined;
+        if (json && !("challenge" in json)) {
+            this.pendingChallenge.setValue(undefined);
+            result = await this.handleLoginResponse(json, response.status);
+        } else {
+            this.state.setValue(LoginState.Unauthenticated);
+            result = response.ok ? this.getInvalidResponseFailure(response) : await this.getLoginFailure(response);
+        }
+        this.events.setValue(result.success ? { type: "loginSucceeded" } : { type: "loginFailed", status: response.status });
+        await this.runHooks("afterLogin", result.success);
+        return result;
+    }
+
+    /**
+     * Reads the body of a successful login response
+     * @returns {Promise<ILoginResponse | ILoginChallengeResponse | undefined>} The tokens or the challenge, or undefined if the body is not a valid login response
+     */
+    private async readLoginResponse(response: Response): Promise<ILoginResponse | ILoginChallengeResponse | undefined> {
+        let json: any;
+        try {
+            json = await response.json();
+        } catch (error) {
+            /** e.g. an HTML error page from a proxy */
+            return undefined;
+        }
+        if (json && json.challenge) {
+            return json;
+        }
+        return json && typeof json.access === "string" && (json.refresh === undefined || typeof json.refresh === "string") ? json : undefined;
+    }
+
+    private getInvalidResponseFailure(response: Response): ILoginResult {
+        return { success: false, reason: LoginResultReason.Unknown, status: response.status, message: "The response doesn't contain the tokens" };
+    }
+
+    private async handleLoginResponse(json: ILoginResponse, status: number): Promise<ILoginResult> {
+        const success = this.handleAuthenticationResponse(json);
+        this.lastCredentialTime = success ? this.clock.now() : undefined;
+        await this.tokenStore.AccessToken.AwaitNotBeforeTime(this.clock);
+        this.currentProviderName = undefined;
+        if (success) {
+            this.touch();
+        }
+        this.state.setValue(success ? LoginState.Authenticated : LoginState.Unauthenticated);
+        return success ? { success, reason: LoginResultReason.Success, status } : {
+            success,
+            reason: LoginResultReason.InvalidToken,
+            status,
+            validation: this.tokenStore.AccessToken.Validate(this.validationPolicy, true, this.clock),
+        };
+    }
+
+    /**
+     * Operations that are guarded with requireRecentAuthentication() demand a re-authentication if the user has entered the password before this many milliseconds
+     */
+    public reauthenticationWindowMs: number = 5 * 60 * 1000;
+
+    /**
+     * An optional callback that asks the user for the password when a guarded operation requires a re-authentication.
+     * If not set (or resolved with undefined), requireRecentAuthentication() will throw a ReauthenticationRequiredError.
+     */
+    public reauthenticationPrompt?: () => Promise<string | undefined>;
+
+    /**
+     * The time (on the server clock) when the user has entered the credentials in this service: on a password login,
+     * on a completed challenge or on a re-authentication
+     */
+    private lastCredentialTime?: Date;
+
+    /**
+     * Returns the time of the last authentication of the current user: the 'auth_time' claim of the access token,
+     * or the locally recorded time of the last credential entry if the claim is not present
+     */
+    private getAuthenticationTime(): Date | undefined {
+        return this.tokenStore.AccessToken.AuthenticationTime || this.lastCredentialTime;
+    }
+
+    /**
+     * Indicates if the user of the current session has entered the credentials within the specified time window.
+     * The authentication time is based on the 'auth_time' claim of the access token. If the claim is not present, the time of the last password login,
+     * completed challenge or re-authentication in this service will be used, as the refreshed tokens are issued without entering the credentials.
+     * @param {number} maxAgeMs The length of the time window, defaults to reauthenticationWindowMs
+     */
+    public isAuthenticationFresh(maxAgeMs: number = this.reauthenticationWindowMs): boolean {
+        const authenticationTime = this.getAuthenticationTime();
+        return this.isTokenValid(this.tokenStore.AccessToken, true) && authenticationTime !== undefined
+            && authenticationTime.getTime() + maxAgeMs > this.clock.now().getTime();
+    }
+
+    /**
+     * Guard for sensitive operations: resolves if the user has entered the credentials within the time window,
+     * otherwise asks for the password with the reauthenticationPrompt and re-authenticates the user.
+     * @param {number} maxAgeMs The length of the time window, defaults to reauthenticationWindowMs
+     * @throws {ReauthenticationRequiredError} if there is no prompt, the prompt has been cancelled or the re-authentication has failed
+     * ```ts
+     * await jwtService.requireRecentAuthentication();
+     * await repository.delete({ idOrPath: "/Root/Content/Documents" });
+     * ```
+     */
+    public async requireRecentAuthentication(maxAgeMs: number = this.reauthenticationWindowMs): Promise<void> {
+        if (this.isAuthenticationFresh(maxAgeMs)) {
+            return;
+        }
+        const authenticationTime = this.getAuthenticationTime();
+        const password = this.reauthenticationPrompt && await this.reauthenticationPrompt();
+        if (password === undefined) {
+            throw new ReauthenticationRequiredError("The operation requires a recent authentication", authenticationTime);
+        }
+        const result = await this.reauthenticate(password);
+        if (!result.success) {
+            throw new ReauthenticationRequiredError(result.message || "The re-authentication has failed", authenticationTime);
+        }
+    }
+
+    /**
+     * Proves the identity of the current user again with the password (step-up authentication). The server responds with a new
+     * (usually short-lived) access token with a fresh authentication time. The session is kept even if the password is not accepted.
+     * @param password {string} The password of the current user
+     * @returns {Promise<ILoginResult>} Returns a Promise that will resolved with the detailed result.
+     * @throws {Error} if there is no logged in user
+     */
+    public async reauthenticate(password: string): Promise<ILoginResult> {
+        const username = this.tokenStore.AccessToken.Username;
+        if (!username || this.state.getValue() !== LoginState.Authenticated) {
+            throw Error("There is no logged in user to reauthenticate");
+        }
+        let response: Response;
+        try {
+            response = await this.repository.fetch(
+                PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/reauthenticate"),
+                {
+                    method: "POST",
+                    headers: {
+                        "X-Access-Data": this.tokenStore.AccessToken.toString(),
+                        "X-Authentication-Type": "Token",
+                        "Authorization": `Basic ${new Buffer(`${username}:${password}`).toString("base64")}`,
+                    },
+                    cache: "no-cache",
+                    credentials: "include",
+                },
+                false,
+            );
+        } catch (error) {
+            return { success: false, reason: LoginResultReason.NetworkError, error };
+        }
+        this.adjustClock(response);
+        if (!response.ok) {
+            return await this.getLoginFailure(response);
+        }
+        const json = await this.readLoginResponse(response);
+        if (!json) {
+            return this.getInvalidResponseFailure(response);
+        }
+        if ("challenge" in json) {
+            this.challengeUsername = username;
+            this.pendingChallenge.setValue(json.challenge);
+            this.events.setValue({ type: "challengeRequired" });
+            return { success: false, reason: LoginResultReason.ChallengeRequired, status: response.status, challenge: json.challenge };
+        }
+        const access = Token.FromHeadAndPayload(json.access);
+        this.adjustClockToToken(access);
+        const validation = access.Validate(this.validationPolicy, true, this.clock);
+        if (!validation.isValid) {
+            // the current tokens are kept
+            return { success: false, reason: LoginResultReason.InvalidToken, status: response.status, validation };
+        }
+        this.tokenStore.SetTokens(json.refresh ? { access, refresh: Token.FromHeadAndPayload(json.refresh) } : { access });
+        this.lastCredentialTime = this.clock.now();
+        await access.AwaitNotBeforeTime(this.clock);
+        this.rescheduleRefresh();
+        this.touch();
+        this.events.setValue({ type: "reauthenticated" });
+        return { success: true, reason: LoginResultReason.Success, status: response.status };
+    }
+
+    /**
+     * Logs in the user with a registered Oauth Provider: retrieves the token with the provider's getToken() method and passes it to its login() method.
+     * The provider will be recorded as the creator of the session, so that its sign-out and refresh methods will be used.
+     * The login fails if the provider's login() method resolves with false or it doesn't store a new valid access token.
+     * @param {string} providerName The name of the registered provider
+     * @returns {Promise<boolean>} Returns a Promise that will resolved with a boolean value that indicates if the login was successfull.
+     * ```ts
+     * jwtService.registerProvider("google", googleProvider);
+     * const success = await jwtService.loginWith("google");
+     * ```
+     */
+    public async loginWith(providerName: string): Promise<boolean> {
+        const provider = this.providersByName.get(providerName);
+        if (!provider) {
+            throw Error(`There is no Oauth Provider registered with the name '${providerName}'`);
+        }
+        await this.runHooks("beforeLogin", providerName);
+        this.state.setValue(LoginState.Pending);
+        this.currentProviderName = providerName;
+        const previousAccessToken = this.tokenStore.AccessToken.toString();
+        let providerResult: any;
+        try {
+            providerResult = await provider.login(await provider.getToken());
+        } catch (error) {
+            this.state.setValue(LoginState.Unauthenticated);
+            this.events.setValue({ type: "loginFailed", error });
+            await this.runHooks("afterLogin", false);
+            throw error;
+        }
+        // an existing session shouldn't be mistaken for the result of the provider login
+        const success = providerResult !== false && this.tokenStore.AccessToken.toString() !== previousAccessToken
+            && this.isTokenValid(this.tokenStore.AccessToken, true);
+        if (success) {
+            await this.tokenStore.AccessToken.AwaitNotBeforeTime(this.clock);
+            this.rescheduleRefresh();
+            this.touch();
+        } else {
+            this.currentProviderName = undefined;
+        }
+        this.state.setValue(success ? LoginState.Authenticated : LoginState.Unauthenticated);
+        this.events.setValue(success ? { type: "loginSucceeded" } : { type: "loginFailed" });
+        await this.runHooks("afterLogin", success);
+        return success;
+    }
+
+    private async getLoginFailure(response: Response): Promise<ILoginResult> {
+        const message = await this.getErrorMessage(response);
+        let reason = LoginResultReason.Unknown;
+        if (response.status === 423 || (message && /locked|disabled/i.test(message))) {
+            reason = LoginResultReason.AccountLocked;
+        } else if (response.status === 401 || response.status === 403) {
+            reason = LoginResultReason.InvalidCredentials;
+        } else if (response.status >= 500) {
+            reason = LoginResultReason.ServerError;
+        }
+        return { success: false, reason, status: response.status, message };
+    }
+
+    private async getErrorMessage(response: Response): Promise<string | undefined> {
+        let message: string | undefined;
+        try {
+            const body = await response.json();
+            message = body.error.message.value;
+        } catch (error) {
+            /** the response has no sensenet error body */
+        }
+        return message || response.statusText || undefined;
+    }
+
+    private async getRequestResult(response: Response): Promise<IServerRequestResult> {
+        return response.ok ? { success: true, status: response.status } : { success: false, status: response.status, message: await this.getErrorMessage(response) };
+    }
+
+    /**
+     * Sends an authenticated request to a session management endpoint. The access token will be renewed before the request, if needed.
+     */
+    private async sendSessionRequest(path: string, method: string): Promise<Response> {
+        await this.repository.awaitReadyState();
+        return await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, path), {
+            method,
+            headers: {
+                "X-Access-Data": this.tokenStore.AccessToken.toString(),
+                "X-Authentication-Type": "Token",
+            },
+            cache: "no-cache",
+            credentials: "include",
+        }, false);
+    }
+
+    /**
+     * Revokes the current refresh token on the server. The access token remains valid until it expires, but the session can't be extended anymore.
+     * @returns {Promise<IServerRequestResult>} A promise that will be resolved with the result of the revocation
+     * @throws {Error} if there is no refresh token to revoke
+     */
+    public async revokeRefreshToken(): Promise<IServerRequestResult> {
+        if (!this.tokenStore.httpOnlyRefreshToken && this.tokenStore.RefreshToken.IsEmpty) {
+            throw Error("There is no refresh token to revoke");
+        }
+        let response: Response;
+        try {
+            response = await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/revoke"), {
                 method: "POST",
-                headers: {
+                headers: this.tokenStore.httpOnlyRefreshToken ? { "X-Authentication-Type": "Token" } : {
+                    "X-Refresh-Data": this.tokenStore.RefreshToken.toString(),
                     "X-Authentication-Type": "Token",
-                    "Authorization": `Basic ${authToken}`,
                 },
                 cache: "no-cache",
                 credentials: "include",
-            },
-            false,
-        );
-
-        if (response.ok) {
-            const json: ILoginResponse = await response.json();
-            const result = this.handleAuthenticationResponse(json);
-            await this.tokenStore.AccessToken.AwaitNotBeforeTime();
-            this.state.setValue(result ? LoginState.Authenticated : LoginState.Unauthenticated);
-            return result;
-        } else {
-            this.state.setValue(LoginState.Unauthenticated);
-            return false;
+            }, false);
+        } catch (error) {
+            return { success: false, error };
         }
+        const result = await this.getRequestResult(response);
+        if (result.success) {
+            this.refreshRejected = true;
+            this.tokenStore.RefreshToken = Token.CreateEmpty();
+        }
+        return result;
     }
 
     /**
-     * Logs out the current user, sets the tokens to 'empty' and sends a Logout request to invalidate all Http only cookies
-     * @returns {Promise<boolean>} A promise that will resolved with a boolean value that indicates if the logout succeeded.
+     * Lists the active sessions (devices and browsers) of the current user from the server
+     * @returns {Promise<IActiveSessionsResult>} A promise that will be resolved with the sessions or with the reason of the failure
+     * ```ts
+     * const result = await service.getActiveSessions();
+     * result.sessions.filter((s) => !s.current).forEach((s) => console.log(s.device, s.lastActivity));
+     * ```
+     */
+    public async getActiveSessions(): Promise<IActiveSessionsResult> {
+        let response: Response;
+        try {
+            response = await this.sendSessionRequest("sn-token/sessions", "GET");
+        } catch (error) {
+            return { success: false, sessions: [], error };
+        }
+        const result = await this.getRequestResult(response);
+        if (!result.success) {
+            return { ...result, sessions: [] };
+        }
+        try {
+            const json: Pick<IActiveSessionsResult, "sessions"> = await response.json();
+            return { ...result, sessions: json.sessions };
+        } catch (error) {
+            return { success: false, status: response.status, sessions: [], error };
+        }
+    }
+
+    /**
+     * Revokes a session of the current user on the server (e.g. to sign out a lost device)
+     * @param {string} sessionId The identifier of the session from the getActiveSessions() result
+     * @returns {Promise<IServerRequestResult>} A promise that will be resolved with the result of the revocation
+     */
+    public async revokeSession(sessionId: string): Promise<IServerRequestResult> {
+        try {
+            return await this.getRequestResult(await this.sendSessionRequest(`sn-token/sessions/${encodeURIComponent(sessionId)}`, "DELETE"));
+        } catch (error) {
+            return { success: false, error };
+        }
+    }
+
+    /**
+     * Revokes all sessions of the current user on the server and logs out locally.
+     * The local session will be kept if the server has failed to revoke the sessions, so that the request can be retried.
+     * @returns {Promise<IServerRequestResult>} A promise that will be resolved with the result of the revocation
+     */
+    public async logoutEverywhere(): Promise<IServerRequestResult> {
+        let result: IServerRequestResult;
+        try {
+            result = await this.getRequestResult(await this.sendSessionRequest("sn-token/logout-all", "POST"));
+        } catch (error) {
+            return { success: false, error };
+        }
+        if (result.success) {
+            await this.logout();
+        }
+        return result;
+    }
+
+    /**
+     * Logs out the current user, sets the tokens to 'empty' and sends a Logout request to invalidate all Http only cookies.
+     * If the session has been created by an Oauth Provider, its sign-out method will be called as well.
+     * The local tokens will be cleared even if the server-side logout or the sign-out of the provider fails.
+     * @returns {Promise<boolean>} A promise that will resolved with a boolean value that indicates if the server-side logout and the sign-out of the provider succeeded.
      */
     public async logout(): Promise<boolean> {
+        await this.runHooks("beforeLogout");
+        const provider = this.sessionProvider;
+        this.pendingChallenge.setValue(undefined);
+        if (this.refreshScheduler) {
+            this.refreshScheduler.stop();
+        }
         this.tokenStore.AccessToken = Token.CreateEmpty();
         this.tokenStore.RefreshToken = Token.CreateEmpty();
+        this.refreshRejected = true;
+        this.userCache.clear();
+        this.lastCredentialTime = undefined;
+        this.stopResume();
+        this.connectionState.setValue(ConnectionState.Online);
         this.state.setValue(LoginState.Unauthenticated);
-        await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/logout"), {
-            method: "POST",
-            cache: "no-cache",
-            credentials: "include",
-        }, false);
-        return true;
+        let success = false;
+        try {
+            const response = await this.repository.fetch(PathHelper.joinPaths(this.repository.configuration.repositoryUrl, "sn-token/logout"), {
+                method: "POST",
+                cache: "no-cache",
+                credentials: "include",
+            }, false);
+            success = response.ok;
+        } catch (error) {
+            /** the tokens have been cleared locally */
+        }
+        if (provider && provider.logout) {
+            try {
+                await provider.logout();
+            } catch (error) {
+                /** the session of the provider may remain, but the local logout has to be completed */
+                success = false;
+            }
+        }
+        this.events.setValue({ type: "loggedOut" });
+        await this.runHooks("afterLogout");
+        return success;
     }
 }
@@ -0,0 +1,44 @@
+/**
+ * This enum represents the reason of a login result
+ */
+export enum LoginResultReason {
+    /**
+     * The user has been logged in successfully
+     */
+    Success = "Success",
+
+    /**
+     * The credentials are correct, but a multi-factor authentication challenge has to be completed with completeChallenge()
+     */
+    ChallengeRequired = "ChallengeRequired",
+
+    /**
+     * The username or the password is not correct (HTTP 401 or 403)
+     */
+    InvalidCredentials = "InvalidCredentials",
+
+    /**
+     * The user account is locked or disabled (HTTP 423, or the error message indicates a locked account)
+     */
+    AccountLocked = "AccountLocked",
+
+    /**
+     * The server has responded with an error (HTTP 5xx)
+     */
+    ServerError = "ServerError",
+
+    /**
+     * The request couldn't be sent or the response couldn't be received
+     */
+    NetworkError = "NetworkError",
+
+    /**
+     * The server has responded with tokens, but the access token is not valid
+     */
+    InvalidToken = "InvalidToken",
+
+    /**
+     * The server has responded with an unexpected status
+     */
+    Unknown = "Unknown",
+}
@@ -0,0 +1,7 @@
+import { TokenVerificationError } from "./TokenVerificationError";
+
+/**
+ * The token is not a well-formed JSON Web Token
+ */
+export class MalformedTokenError extends TokenVerificationError {
+}
@@ -0,0 +1,14 @@
+/**
+ * Error that can occur during an OAuth authorization flow (e.g. an error response from the authorization server or a state mismatch)
+ */
+export class OauthError extends Error {
+    /**
+     * @param {string} message The error message
+     * @param {string} code The OAuth error code (e.g. 'access_denied' or 'invalid_state')
+     */
+    constructor(message: string, public readonly code: string) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
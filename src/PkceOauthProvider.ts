@@ -0,0 +1,225 @@
+import { LoginState } from "@sensenet/client-core";
+import { PathHelper } from "@sensenet/client-utils";
+import { toBase64Url } from "./Base64Url";
+import { ILoginResponse } from "./ILoginResponse";
+import { IOauthProvider } from "./IOauthProvider";
+import { IPkceOauthProviderOptions } from "./IPkceOauthProviderOptions";
+import { ITokenPayload } from "./ITokenPayload";
+import { JwtService } from "./JwtService";
+import { OauthError } from "./OauthError";
+import { Token } from "./Token";
+
+/**
+ * The pending authorization request that has to be stored between the redirect and the callback
+ */
+interface IPendingAuthorization {
+    /**
+     * The state parameter that protects against CSRF
+     */
+    state: string;
+
+    /**
+     * The nonce that binds the tokens to the authorization request
+     */
+    nonce: string;
+
+    /**
+     * The PKCE code verifier
+     */
+    codeVerifier: string;
+}
+
+/**
+ * OAuth provider that implements the authorization code flow with PKCE (RFC 7636).
+ * The authorization code will be exchanged for sensenet tokens at the 'sn-oauth/login' endpoint.
+ *
+ * Usage example:
+ * ```ts
+ * const provider = new PkceOauthProvider(jwtService, {
+ *     providerName: "google",
+ *     authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+ *     clientId: "<your client id>",
+ *     redirectUri: "https://my-app/oauth-callback",
+ * });
+ * jwtService.registerProvider("google", provider);
+ * // on the login page
+ * await provider.redirect();
+ * // on the callback page
+ * const success = await jwtService.loginWith("google");
+ * ```
+ */
+export class PkceOauthProvider implements IOauthProvider {
+
+    private readonly storageKey: string;
+
+    /**
+     * @param {JwtService} jwtService The JWT service that will be updated with the received tokens
+     * @param {IPkceOauthProviderOptions} options The provider options
+     */
+    constructor(private readonly jwtService: JwtService, private readonly options: IPkceOauthProviderOptions) {
+        this.storageKey = `sn-oauth-pkce-${options.providerName}`;
+    }
+
+    private get storage() {
+        return this.options.storage || sessionStorage;
+    }
+
+    private get crypto() {
+        return this.options.crypto || crypto;
+    }
+
+    private get location() {
+        return this.options.location || window.location;
+    }
+
+    private createRandomString(): string {
+        return toBase64Url(this.crypto.getRandomValues(new Uint8Array(32)));
+    }
+
+    /**
+     * Creates a new authorization request with a fresh code verifier, state and nonce and returns the authorization URL.
+     * The pending request will be stored until the callback.
+     * @returns {Promise<string>} The URL of the authorization endpoint with the request parameters
+     */
+    public async createAuthorizationUrl(): Promise<string> {
+        const pending: IPendingAuthorization = {
+            state: this.createRandomString(),
+            nonce: this.createRandomString(),
+            codeVerifier: this.createRandomString(),
+        };
+        const digest = await this.crypto.subtle.digest("SHA-256", new Uint8Array(Array.from(pending.codeVerifier).map((c) => c.charCodeAt(0))));
+        this.storage.setItem(this.storageKey, JSON.stringify(pending));
+
+        const url = new URL(this.options.authorizationEndpoint);
+        url.searchParams.set("response_type", "code");
+        url.searchParams.set("client_id", this.options.clientId);
+        url.searchParams.set("redirect_uri", this.options.redirectUri);
+        url.searchParams.set("scope", this.options.scope || "openid profile email");
+        url.searchParams.set("state", pending.state);
+        url.searchParams.set("nonce", pending.nonce);
+        url.searchParams.set("code_challenge", toBase64Url(new Uint8Array(digest)));
+        url.searchParams.set("code_challenge_method", "S256");
+        return url.toString();
+    }
+
+    /**
+     * Creates a new authorization request and redirects the browser to the authorization endpoint
+     */
+    public async redirect() {
+        this.location.assign(await this.createAuthorizationUrl());
+    }
+
+    /**
+     * Parses the callback URL and validates the state against the pending authorization request
+     * @param {string} callbackUrl The URL that the identity provider has redirected back to. Defaults to the current location.
+     * @returns {Promise<string>} The authorization code
+     * @throws {OauthError} if the identity provider has responded with an error, if the state doesn't match or there is no code in the URL
+     */
+    public async getToken(callbackUrl: string = this.location.href): Promise<string> {
+        const url = new URL(callbackUrl);
+        const params = url.searchParams.has("state") || url.searchParams.has("error") ? url.searchParams : new URLSearchParams(url.hash.replace(/^#/, ""));
+        const error = params.get("error");
+        if (error) {
+            this.storage.removeItem(this.storageKey);
+            throw new OauthError(params.get("error_description") || `The authorization has failed: ${error}`, error);
+        }
+        const pending = this.getPendingAuthorization();
+        if (!pending || params.get("state") !== pending.state) {
+            throw new OauthError("The state of the callback doesn't match the pending authorization request", "invalid_state");
+        }
+        const code = params.get("code");
+        if (!code) {
+            throw new OauthError("There is no authorization code in the callback URL", "invalid_request");
+        }
+        return code;
+    }
+
+    /**
+     * Exchanges the authorization code for sensenet tokens and updates the JWT service
+     * @param {string} code The authorization code
+     * @returns {Promise<boolean>} A promise that will be resolved with a boolean value that indicates if the login was successful
+     * @throws {OauthError} if there is no pending authorization request or the nonce is missing or doesn't match
+     */
+    public async login(code: string): Promise<boolean> {
+        const pending = this.getPendingAuthorization();
+        if (!pending) {
+            throw new OauthError("There is no pending authorization request", "invalid_state");
+        }
+        this.storage.removeItem(this.storageKey);
+        this.jwtService.state.setValue(LoginState.Pending);
+        let response: Response;
+        try {
+            response = await this.jwtService.repository.fetch(this.options.tokenEndpoint ||
+                PathHelper.joinPaths(this.jwtService.repository.configuration.repositoryUrl, `sn-oauth/login?provider=${encodeURIComponent(this.options.providerName)}`), {
+                    method: "POST",
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({
+                        code,
+                        code_verifier: pending.codeVerifier,
+                        redirect_uri: this.options.redirectUri,
+                        nonce: pending.nonce,
+                    }),
+                    cache: "no-cache",
+                    credentials: "include",
+                }, false);
+        } catch (error) {
+            this.jwtService.state.setValue(LoginState.Unauthenticated);
+            throw error;
+        }
+        if (!response.ok) {
+            this.jwtService.state.setValue(LoginState.Unauthenticated);
+            return false;
+        }
+        let json: ILoginResponse;
+        let nonce: string | undefined;
+        try {
+            json = await response.json();
+            nonce = Token.FromHeadAndPayload<ITokenPayload & Record<string, any>>(json.access).GetClaim("nonce");
+        } catch (error) {
+            /** the response doesn't contain valid tokens */
+            this.jwtService.state.setValue(LoginState.Unauthenticated);
+            return false;
+        }
+        if (nonce === undefined && !this.options.allowMissingNonce) {
+            this.jwtService.state.setValue(LoginState.Unauthenticated);
+            throw new OauthError("The token doesn't contain the nonce of the pending authorization request", "invalid_nonce");
+        }
+        if (nonce !== undefined && nonce !== pending.nonce) {
+            this.jwtService.state.setValue(LoginState.Unauthenticated);
+            throw new OauthError("The nonce of the token doesn't match the pending authorization request", "invalid_nonce");
+        }
+        const result = this.jwtService.handleAuthenticationResponse(json);
+        this.jwtService.state.setValue(result ? LoginState.Authenticated : LoginState.Unauthenticated);
+        return result;
+    }
+
+    /**
+     * Completes the authorization flow on the callback page: validates the callback URL and exchanges the code for sensenet tokens
+     * @param {string} callbackUrl The URL that the identity provider has redirected back to. Defaults to the current location.
+     * @returns {Promise<boolean>} A promise that will be resolved with a boolean value that indicates if the login was successful
+     */
+    public async handleCallback(callbackUrl: string = this.location.href): Promise<boolean> {
+        return await this.login(await this.getToken(callbackUrl));
+    }
+
+    /**
+     * Disposes the provider
+     */
+    public dispose() {
+        /** */
+    }
+
+    private getPendingAuthorization(): IPendingAuthorization | undefined {
+        const stored = this.storage.getItem(this.storageKey);
+        if (!stored) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(stored);
+        } catch (error) {
+            return undefined;
+        }
+    }
+}
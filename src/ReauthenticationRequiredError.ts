@@ -0,0 +1,14 @@
+/**
+ * The operation requires a recent authentication, the user has to enter the password again with JwtService.reauthenticate()
+ */
+export class ReauthenticationRequiredError extends Error {
+    /**
+     * @param {string} message The error message
+     * @param {Date} authenticationTime The time of the last authentication, if known
+     */
+    constructor(message: string, public readonly authenticationTime?: Date) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
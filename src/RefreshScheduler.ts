@@ -0,0 +1,67 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { IClock } from "./IClock";
+
+/**
+ * Schedules a callback that refreshes the access token before it expires.
+ */
+export class RefreshScheduler implements IDisposable {
+
+    private timer?: any;
+
+    /**
+     * @param {() => Date} getExpirationTime Callback that returns the expiration time of the current access token
+     * @param {() => Promise<boolean>} refresh Callback that executes the token refresh
+     * @param {number} leadTimeMs The refresh will be executed this many milliseconds before the expiration
+     * @param {IClock} clock The clock that is used for scheduling
+     */
+    constructor(private readonly getExpirationTime: () => Date,
+                private readonly refresh: () => Promise<boolean>,
+                private readonly leadTimeMs: number,
+                private readonly clock: IClock) {
+    }
+
+    /**
+     * Indicates if there is a scheduled refresh
+     */
+    public get isScheduled(): boolean {
+        return this.timer !== undefined;
+    }
+
+    /**
+     * (Re)schedules the refresh based on the current access token expiration time. Expired tokens won't be scheduled.
+     */
+    public schedule() {
+        this.stop();
+        const now = this.clock.now().getTime();
+        const expiration = this.getExpirationTime().getTime();
+        if (expiration > now) {
+            this.timer = this.clock.setTimeout(() => this.execRefresh(), Math.max(expiration - this.leadTimeMs - now, 0));
+        }
+    }
+
+    /**
+     * Cancels the scheduled refresh
+     */
+    public stop() {
+        if (this.timer !== undefined) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Disposes the scheduler, cancels the scheduled refresh
+     */
+    public dispose() {
+        this.stop();
+    }
+
+    private async execRefresh() {
+        this.timer = undefined;
+        try {
+            await this.refresh();
+        } catch (error) {
+            // the refresh will be retried on the next checkForUpdate() call
+        }
+    }
+}
@@ -0,0 +1,90 @@
+import { LoginState, Repository } from "@sensenet/client-core";
+import { IDisposable } from "@sensenet/client-utils";
+import { CookieJar } from "./CookieJar";
+import { CookieJarStorageBackend } from "./CookieJarStorageBackend";
+import { ICookieOptions } from "./ICookieOptions";
+import { ITokenValidationPolicy } from "./ITokenValidationPolicy";
+import { JwtService } from "./JwtService";
+import { TokenPersist } from "./TokenPersist";
+
+/**
+ * Request-scoped authentication for server-side (Node.js) rendering.
+ * The tokens are read from the Cookie header of the incoming request and the changes can be sent back with Set-Cookie headers.
+ * A new session (with a new Repository instance) should be created for each incoming request, so that the tokens won't leak between the requests.
+ *
+ * Usage example:
+ * ```ts
+ * app.get("*", async (req, res) => {
+ *     const session = new ServerSession(new Repository({ repositoryUrl }, fetch), req.headers.cookie);
+ *     await session.initialize();
+ *     // ...render the page with session.repository
+ *     res.setHeader("Set-Cookie", await session.getSetCookieHeaders());
+ *     session.dispose();
+ * });
+ * ```
+ */
+export class ServerSession implements IDisposable {
+
+    /**
+     * The cookie jar of the request
+     */
+    public readonly cookies: CookieJar;
+
+    /**
+     * The authentication service of the request
+     */
+    public readonly service: JwtService;
+
+    /**
+     * @param {Repository} repository A new Repository instance for the request
+     * @param {string | string[]} cookieHeader The Cookie header(s) of the incoming request
+     * @param {ITokenValidationPolicy} validationPolicy Additional rules that the tokens should match to be accepted
+     * @param {ICookieOptions} cookieOptions The attributes of the Set-Cookie headers
+     * @throws if the repository is already used by another JwtService
+     */
+    constructor(public readonly repository: Repository,
+                cookieHeader?: string | string[],
+                validationPolicy?: ITokenValidationPolicy,
+                cookieOptions?: ICookieOptions) {
+        if (repository.authentication instanceof JwtService) {
+            throw Error("The repository is already used by another JwtService. Create a new Repository instance for each request.");
+        }
+        this.cookies = new CookieJar(cookieHeader, cookieOptions);
+        const tokenPersist = repository.configuration.sessionLifetime === "session" ? TokenPersist.Session : TokenPersist.Expiration;
+        this.service = new JwtService(repository, undefined, undefined, {
+            storageBackend: new CookieJarStorageBackend(this.cookies, tokenPersist),
+            validationPolicy,
+        });
+        // the request shouldn't wait for the retries of an unreachable refresh endpoint
+        this.service.configureRefreshRetry({ maxRetries: 0 });
+    }
+
+    /**
+     * Loads the tokens from the cookies and refreshes the access token if needed. A failed refresh doesn't reject,
+     * the state (and the connectionState of the service) will reflect the outcome.
+     * @returns {Promise<LoginState>} The login state of the request
+     */
+    public async initialize(): Promise<LoginState> {
+        try {
+            await this.service.checkForUpdate();
+        } catch (error) {
+            /** e.g. a failing refresh hook, the state reflects the outcome */
+        }
+        return this.service.state.getValue();
+    }
+
+    /**
+     * Waits for the pending token changes and returns the Set-Cookie headers for the response
+     */
+    public async getSetCookieHeaders(): Promise<string[]> {
+        await this.service.flushTokens();
+        return this.cookies.getSetCookieHeaders();
+    }
+
+    /**
+     * Disposes the session and its authentication service
+     */
+    public dispose() {
+        this.service.dispose();
+    }
+}
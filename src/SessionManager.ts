@@ -0,0 +1,181 @@
+import { ConstantContent, LoginState } from "@sensenet/client-core";
+import { IDisposable, ObservableValue } from "@sensenet/client-utils";
+import { User } from "@sensenet/default-content-types";
+import { ISessionInfo } from "./ISessionInfo";
+import { JwtService } from "./JwtService";
+
+/**
+ * Keeps multiple named sessions (e.g. different accounts or different repositories) and switches between them.
+ * Each session is a JwtService with its own session name, so the tokens are stored separately for each account.
+ *
+ * Usage example:
+ * ```ts
+ * const sessions = new SessionManager();
+ * sessions.add(new JwtService(repository, undefined, undefined, { sessionName: "admin" }));
+ * sessions.add(new JwtService(repository, undefined, undefined, { sessionName: "editor" }));
+ * await sessions.switchTo("editor");
+ * sessions.currentUser.subscribe((user) => console.log("Active user:", user.LoginName));
+ * ```
+ */
+export class SessionManager implements IDisposable {
+
+    private readonly sessions: Map<string, JwtService> = new Map<string, JwtService>();
+    private activeObservers: IDisposable[] = [];
+
+    /**
+     * The name of the active session (undefined if there is no active session)
+     */
+    public activeSessionName: ObservableValue<string | undefined> = new ObservableValue<string | undefined>(undefined);
+
+    /**
+     * The login state of the active session
+     */
+    public state: ObservableValue<LoginState> = new ObservableValue<LoginState>(LoginState.Unauthenticated);
+
+    /**
+     * The current user of the active session
+     */
+    public currentUser: ObservableValue<User> = new ObservableValue<User>(ConstantContent.VISITOR_USER);
+
+    /**
+     * The active session (undefined if there is no active session)
+     */
+    public get activeSession(): JwtService | undefined {
+        const name = this.activeSessionName.getValue();
+        return name !== undefined ? this.sessions.get(name) : undefined;
+    }
+
+    /**
+     * Adds a session. The first added session will be the active one.
+     * @param {JwtService} service The service of the session, constructed with a unique session name
+     * @throws if the service has no session name or there is already a session with the same name
+     */
+    public add(service: JwtService) {
+        const name = service.sessionName;
+        if (!name) {
+            throw Error("The service should have a session name");
+        }
+        if (this.sessions.has(name)) {
+            throw Error(`There is already a session with the name '${name}'`);
+        }
+        this.sessions.set(name, service);
+        const activeSession = this.activeSession;
+        if (activeSession) {
+            // the new service has taken over the authentication of its repository on construction
+            activeSession.repository.authentication = activeSession;
+        } else {
+            this.activate(name, service);
+        }
+    }
+
+    /**
+     * Removes a session without logging it out. If the session was the active one, there will be no active session.
+     * @param {string} name The name of the session
+     * @returns {JwtService | undefined} The removed service
+     */
+    public remove(name: string): JwtService | undefined {
+        const service = this.sessions.get(name);
+        this.sessions.delete(name);
+        if (service && this.activeSessionName.getValue() === name) {
+            this.deactivate();
+        }
+        return service;
+    }
+
+    /**
+     * Returns the service of the session with the specified name
+     * @param {string} name The name of the session
+     */
+    public get(name: string): JwtService | undefined {
+        return this.sessions.get(name);
+    }
+
+    /**
+     * Lists the sessions with their states and users
+     */
+    public list(): ISessionInfo[] {
+        const activeName = this.activeSessionName.getValue();
+        return Array.from(this.sessions.entries()).map(([name, service]) => ({
+            name,
+            repositoryUrl: service.repository.configuration.repositoryUrl,
+            state: service.state.getValue(),
+            user: service.currentUser.getValue(),
+            isActive: name === activeName,
+        }));
+    }
+
+    /**
+     * Switches the active session. The repository of the session will use the session's service for authentication
+     * and the state and currentUser observables will follow the session.
+     * @param {string} name The name of the session
+     * @returns {Promise<boolean>} A promise that will be resolved with a boolean value that indicates if the session is authenticated
+     * @throws if there is no session with the specified name
+     */
+    public async switchTo(name: string): Promise<boolean> {
+        const service = this.sessions.get(name);
+        if (!service) {
+            throw Error(`There is no session with the name '${name}'`);
+        }
+        this.activate(name, service);
+        await service.checkForUpdate();
+        return service.state.getValue() === LoginState.Authenticated;
+    }
+
+    /**
+     * Logs out a session
+     * @param {string} name The name of the session. Defaults to the active session.
+     * @returns {Promise<boolean>} A promise that will be resolved with a boolean value that indicates if the logout succeeded
+     */
+    public async logout(name: string | undefined = this.activeSessionName.getValue()): Promise<boolean> {
+        const service = name !== undefined ? this.sessions.get(name) : undefined;
+        if (!service) {
+            return false;
+        }
+        return await service.logout();
+    }
+
+    /**
+     * Logs out all the sessions
+     * @returns {Promise<boolean>} A promise that will be resolved with a boolean value that indicates if all the logouts succeeded
+     */
+    public async logoutAll(): Promise<boolean> {
+        const results = await Promise.all(Array.from(this.sessions.values()).map((service) => service.logout()));
+        return results.every((result) => result);
+    }
+
+    /**
+     * Disposes the manager and its observables. The services of the sessions won't be disposed.
+     */
+    public dispose() {
+        this.deactivate();
+        this.activeSessionName.dispose();
+        this.state.dispose();
+        this.currentUser.dispose();
+    }
+
+    private activate(name: string, service: JwtService) {
+        this.disposeObservers();
+        service.repository.authentication = service;
+        this.activeObservers = [
+            service.state.subscribe((state) => this.state.setValue(state)),
+            service.currentUser.subscribe((user) => this.currentUser.setValue(user)),
+        ];
+        this.activeSessionName.setValue(name);
+        this.state.setValue(service.state.getValue());
+        this.currentUser.setValue(service.currentUser.getValue());
+    }
+
+    private deactivate() {
+        this.disposeObservers();
+        this.activeSessionName.setValue(undefined);
+        this.state.setValue(LoginState.Unauthenticated);
+        this.currentUser.setValue(ConstantContent.VISITOR_USER);
+    }
+
+    private disposeObservers() {
+        for (const observer of this.activeObservers) {
+            observer.dispose();
+        }
+        this.activeObservers = [];
+    }
+}
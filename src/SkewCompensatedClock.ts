@@ -0,0 +1,79 @@
+import { IClock } from "./IClock";
+import { SystemClock } from "./SystemClock";
+
+/**
+ * A clock that follows the time of the server. The difference between the local and the server time (the skew)
+ * is estimated from server time samples, e.g. from the Date header of the responses or from the issued date of freshly issued tokens.
+ *
+ * Usage example:
+ * ```ts
+ * const clock = new SkewCompensatedClock();
+ * clock.adjust(new Date(response.headers.get("Date")));
+ * const isValid = token.IsValid(false, clock);
+ * ```
+ */
+export class SkewCompensatedClock implements IClock {
+
+    private offsetMs = 0;
+
+    /**
+     * The estimated difference between the server and the local time in milliseconds (positive if the local clock is behind the server)
+     */
+    public get skewMs(): number {
+        return this.offsetMs;
+    }
+
+    /**
+     * @param {IClock} localClock The clock that provides the local time and the timers
+     * @param {number} precisionMs Differences below this value will be ignored, as the time samples have a second precision and include the network latency
+     */
+    constructor(private readonly localClock: IClock = new SystemClock(), private readonly precisionMs: number = 1000) {
+    }
+
+    /**
+     * Returns the estimated current server time
+     */
+    public now(): Date {
+        return new Date(this.localClock.now().getTime() + this.offsetMs);
+    }
+
+    /**
+     * Executes the callback after the specified amount of milliseconds using the local clock
+     */
+    public setTimeout(callback: () => void, ms: number): any {
+        return this.localClock.setTimeout(callback, ms);
+    }
+
+    /**
+     * Cancels the timer using the local clock
+     */
+    public clearTimeout(handle: any): void {
+        this.localClock.clearTimeout(handle);
+    }
+
+    /**
+     * Updates the estimated skew with a server time sample. Invalid dates and the samples that are within the precision of the current estimation will be ignored.
+     * @param {Date} serverTime The current time on the server
+     */
+    public adjust(serverTime: Date) {
+        const skew = serverTime.getTime() - this.localClock.now().getTime();
+        if (!isNaN(skew) && Math.abs(skew - this.offsetMs) > this.precisionMs) {
+            this.offsetMs = skew;
+        }
+    }
+
+    /**
+     * Converts a server time to the local time (e.g. for scheduling the local timers)
+     * @param {Date} serverTime The server time to convert
+     */
+    public toLocalTime(serverTime: Date): Date {
+        return new Date(serverTime.getTime() - this.offsetMs);
+    }
+
+    /**
+     * Drops the estimated skew
+     */
+    public reset() {
+        this.offsetMs = 0;
+    }
+}
@@ -0,0 +1,57 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { ITokenSyncMessage } from "./ITokenSyncMessage";
+import { ITokenSyncTransport } from "./ITokenSyncTransport";
+
+/**
+ * Token sync transport that uses localStorage 'storage' events. Can be used in browsers that doesn't support BroadcastChannel.
+ */
+export class StorageEventTransport implements ITokenSyncTransport {
+
+    /**
+     * @param {string} key The localStorage key that is used for passing the messages
+     * @param {Window} windowRef The Window reference (used by unit tests)
+     * @param {Storage} localStorageRef The localStorage reference (used by unit tests)
+     */
+    constructor(private readonly key: string = "sn-token-sync",
+                private readonly windowRef: Pick<Window, "addEventListener" | "removeEventListener"> = window,
+                private readonly localStorageRef: Storage = localStorage) {
+    }
+
+    /**
+     * Writes the message to the localStorage (and removes it immediately), the other tabs will be notified with a 'storage' event
+     * @param {ITokenSyncMessage} message The message to send
+     */
+    public send(message: ITokenSyncMessage) {
+        this.localStorageRef.setItem(this.key, JSON.stringify(message));
+        this.localStorageRef.removeItem(this.key);
+    }
+
+    /**
+     * Subscribes to the 'storage' events of the message key
+     * @param {(message: ITokenSyncMessage) => void} callback The callback that will be called on each incoming message
+     */
+    public subscribe(callback: (message: ITokenSyncMessage) => void): IDisposable {
+        const listener = (ev: StorageEvent) => {
+            if (ev.key === this.key && ev.newValue) {
+                let message: ITokenSyncMessage;
+                try {
+                    message = JSON.parse(ev.newValue);
+                } catch (error) {
+                    return;
+                }
+                callback(message);
+            }
+        };
+        this.windowRef.addEventListener("storage", listener);
+        return {
+            dispose: () => this.windowRef.removeEventListener("storage", listener),
+        };
+    }
+
+    /**
+     * The transport has no resources to release
+     */
+    public dispose() {
+        /** */
+    }
+}
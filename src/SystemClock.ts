@@ -0,0 +1,27 @@
+import { IClock } from "./IClock";
+
+/**
+ * Default clock implementation that uses the system time and the global timer functions
+ */
+export class SystemClock implements IClock {
+    /**
+     * Returns the current system date and time
+     */
+    public now(): Date {
+        return new Date();
+    }
+
+    /**
+     * Executes the callback after the specified amount of milliseconds using the global setTimeout()
+     */
+    public setTimeout(callback: () => void, ms: number): any {
+        return setTimeout(callback, ms);
+    }
+
+    /**
+     * Cancels the timer using the global clearTimeout()
+     */
+    public clearTimeout(handle: any): void {
+        clearTimeout(handle);
+    }
+}
@@ -0,0 +1,14 @@
+/**
+ * A stored token value can't be decrypted (e.g. the encryption key has been lost or the value has been tampered with)
+ */
+export class TokenDecryptionError extends Error {
+    /**
+     * @param {string} message The error message
+     * @param {string} key The storage key of the discarded value
+     */
+    constructor(message: string, public readonly key: string) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
@@ -1,6 +1,12 @@
+import { ObservableValue } from "@sensenet/client-utils";
+import { CookieStorageBackend } from "./CookieStorageBackend";
+import { ICookieOptions } from "./ICookieOptions";
+import { InMemoryStorageBackend } from "./InMemoryStorageBackend";
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
 import { Token } from "./Token";
 import { TokenPersist } from "./TokenPersist";
 import { TokenStoreType } from "./TokenStoreType";
+import { WebStorageBackend } from "./WebStorageBackend";
 
 /**
  * Indicates the type of the token
@@ -8,7 +14,24 @@ import { TokenStoreType } from "./TokenStoreType";
 export type TokenType = "access" | "refresh";
 
 /**
- * This class is intended to store token data in LocalStorage or in-memory storage.
+ * Represents a change of a stored token
+ */
+export interface ITokenChange {
+    /**
+     * The type of the changed token
+     */
+    key: TokenType;
+
+    /**
+     * The new token value
+     */
+    token: Token;
+}
+
+/**
+ * This class is intended to store token data in LocalStorage, SessionStorage, cookies, in-memory storage or in a custom storage backend.
+ * The tokens are cached in memory, so they can be accessed synchronously. Changes are written through to the storage backend.
+ * The web storage and cookie backends are shared between the browser tabs, so they are read through on each access to pick up the changes of the other tabs.
  */
 export class TokenStore {
 
@@ -19,109 +42,234 @@ export class TokenStore {
      * @param {Partial<Document>} documentRef The Document reference (used by unit tests)
      * @param {Storage} localStorageRef The localStorage reference (used by unit tests)
      * @param {Storage} sessionStorageRef The sessionStorage reference (used by unit tests)
+     * @param {ITokenStorageBackend} customBackend An optional custom storage backend. The built-in backends will be ignored if provided.
+     * @param {ICookieOptions} cookieOptions The attributes of the cookies (for the cookie based stores) and the HttpOnly refresh token setting
      */
     constructor(private readonly baseUrl: string,
                 private readonly keyTemplate: string,
                 private readonly tokenPersist: TokenPersist,
                 private documentRef = (typeof document === "object") ? document : undefined,
                 private localStorageRef = (typeof localStorage === "object") ? localStorage : undefined,
-                private sessionStorageRef = (typeof sessionStorage === "object") ? sessionStorage : undefined) {
+                private sessionStorageRef = (typeof sessionStorage === "object") ? sessionStorage : undefined,
+                customBackend?: ITokenStorageBackend,
+                private readonly cookieOptions: ICookieOptions = {}) {
+        this.httpOnlyRefreshToken = cookieOptions.httpOnlyRefreshToken === true;
         const storesAvailable = (typeof this.localStorageRef !== "undefined" && typeof this.sessionStorageRef !== "undefined");
         const cookieAvailable = (typeof this.documentRef !== "undefined" && typeof this.documentRef.cookie !== "undefined");
 
-        if (!storesAvailable && !cookieAvailable) {
+        if (customBackend) {
+            this.tokenStoreType = TokenStoreType.Custom;
+        } else if (!storesAvailable && !cookieAvailable) {
             this.tokenStoreType = TokenStoreType.InMemory;
         } else if (this.tokenPersist === TokenPersist.Expiration) {
             storesAvailable ? this.tokenStoreType = TokenStoreType.LocalStorage : this.tokenStoreType = TokenStoreType.ExpirationCookie;
         } else {
             storesAvailable ? this.tokenStoreType = TokenStoreType.SessionStorage : this.tokenStoreType = TokenStoreType.SessionCookie;
         }
+        this.backend = customBackend || this.createBuiltInBackend();
+        if (this.backend instanceof WebStorageBackend || this.backend instanceof CookieStorageBackend) {
+            this.readThroughBackend = this.backend;
+        }
+        this.ready = this.loadTokens();
     }
 
     /**
-     * If localStorage is not available, stores the token data in this in-memory array
+     * The type of the generated Token Store
      */
-    private innerStore: Map<string, string> = new Map();
+    public readonly tokenStoreType: TokenStoreType;
 
     /**
-     * The type of the generated Token Store
+     * Indicates if the refresh token is stored by the server in an HttpOnly cookie. The refresh token won't be stored on the client in this case.
      */
-    public readonly tokenStoreType: TokenStoreType;
+    public readonly httpOnlyRefreshToken: boolean;
+
+    /**
+     * The storage backend that persists the tokens
+     */
+    public readonly backend: ITokenStorageBackend;
+
+    /**
+     * A promise that will be resolved when the tokens have been loaded from the storage backend
+     */
+    public readonly ready: Promise<void>;
+
+    /**
+     * Observable value that will be updated after each SetToken() call
+     */
+    public readonly tokenChanged: ObservableValue<ITokenChange> = new ObservableValue<ITokenChange>();
+
+    /**
+     * Observable value that will be updated with the errors of the storage backend
+     */
+    public readonly storageError: ObservableValue<any> = new ObservableValue<any>();
+
+    /**
+     * The in-memory cache of the tokens
+     */
+    private cache: Map<TokenType, Token> = new Map();
+
+    /**
+     * The built-in backend that can be read synchronously on each access
+     */
+    private readonly readThroughBackend?: WebStorageBackend | CookieStorageBackend;
+
+    /**
+     * The values that have been loaded from or written to the storage backend by this instance, by their storage keys.
+     * A different stored value indicates a change by another instance (e.g. in another tab).
+     */
+    private storedValues: Map<string, string> = new Map();
+
+    /**
+     * Queue of the pending storage backend writes
+     */
+    private pendingWrites: Promise<void> = Promise.resolve();
+
+    private createBuiltInBackend(): ITokenStorageBackend {
+        switch (this.tokenStoreType) {
+            case TokenStoreType.LocalStorage:
+                return new WebStorageBackend(this.localStorageRef as Storage);
+            case TokenStoreType.SessionStorage:
+                return new WebStorageBackend(this.sessionStorageRef as Storage);
+            case TokenStoreType.ExpirationCookie:
+                return new CookieStorageBackend(this.documentRef as Document, TokenPersist.Expiration, this.cookieOptions);
+            case TokenStoreType.SessionCookie:
+                return new CookieStorageBackend(this.documentRef as Document, TokenPersist.Session, this.cookieOptions);
+            default:
+                return new InMemoryStorageBackend();
+        }
+    }
 
     private getStoreKey(key: TokenType) {
         return this.keyTemplate.replace("${siteName}", this.baseUrl).replace("${tokenName}", key);
     }
 
-    private getTokenFromCookie(key: string, document: Document): Token {
-        const prefix = key + "=";
-        if (document && document.cookie) {
-            const cookieVal = document.cookie.split(";")
-                .map((v) => v.trim())
-                .find((v) => v.trim().indexOf(prefix) === 0);
-            if (cookieVal) {
-                return Token.FromHeadAndPayload(cookieVal.substring(prefix.length));
+    private async loadTokens() {
+        if (this.httpOnlyRefreshToken) {
+            // a refresh token that has been stored before shouldn't remain on the client
+            this.SetToken("refresh", Token.CreateEmpty());
+        }
+        for (const key of ["access", "refresh"] as TokenType[]) {
+            let token = Token.CreateEmpty();
+            if (this.httpOnlyRefreshToken && key === "refresh") {
+                continue;
+            }
+            try {
+                const value = await this.backend.get(this.getStoreKey(key));
+                this.storedValues.set(this.getStoreKey(key), value || Token.CreateEmpty().toString());
+                if (value) {
+                    token = Token.FromHeadAndPayload(value);
+                }
+            } catch (err) {
+                this.storageError.setValue(err);
+            }
+            // tokens that has been set during loading shouldn't be overwritten
+            if (!this.cache.has(key)) {
+                this.cache.set(key, token);
             }
         }
-        return Token.CreateEmpty();
     }
 
-    private setTokenToCookie(key: string, token: Token, persist: TokenPersist, doc: Document): void {
-        let cookie = `${key}=${token.toString()}`;
-        if (persist === TokenPersist.Expiration) {
-            cookie += `; expires=${token.ExpirationTime.toUTCString()};`;
-        }
-        doc.cookie = cookie;
+    /**
+     * Returns a promise that will be resolved when all pending writes have been persisted to the storage backend
+     */
+    public async flush(): Promise<void> {
+        await this.pendingWrites;
     }
 
     /**
      * Gets the specified token
      * @param key {TokenType} The key for the token
-     * @returns {Token} The requested token, or Token.Empty in case of error
+     * @returns {Token} The requested token, or Token.Empty if not set or not loaded yet
      */
     public GetToken(key: TokenType): Token {
+        const cached = this.cache.get(key) || Token.CreateEmpty();
+        if (!this.readThroughBackend || (this.httpOnlyRefreshToken && key === "refresh")) {
+            return cached;
+        }
+        const storeKey = this.getStoreKey(key);
+        let value: string;
+        try {
+            value = this.readThroughBackend.getSync(storeKey) || Token.CreateEmpty().toString();
+        } catch (err) {
+            return cached;
+        }
+        // the cache is newer if the stored value hasn't been changed by another instance (e.g. if the write is pending or has failed)
+        const knownValue = this.storedValues.get(storeKey);
+        if (value === cached.toString() || (knownValue === undefined ? this.cache.has(key) : value === knownValue)) {
+            return cached;
+        }
+        const token = Token.FromHeadAndPayload(value);
+        this.storedValues.set(storeKey, value);
+        this.cache.set(key, token);
+        return token;
+    }
+
+    /**
+     * Reads the specified token from the storage backend again (e.g. to pick up a change by another instance that shares the storage).
+     * The pending writes of this instance will be persisted first.
+     * @param key {TokenType} The key for the token
+     * @returns {Promise<Token>} The stored token, or the cached one if the backend fails to load it
+     */
+    public async ReloadToken(key: TokenType): Promise<Token> {
+        await this.flush();
+        if (this.httpOnlyRefreshToken && key === "refresh") {
+            return this.GetToken(key);
+        }
         const storeKey = this.getStoreKey(key);
         try {
-            switch (this.tokenStoreType) {
-                case TokenStoreType.InMemory:
-                    return this.innerStore.has(storeKey) ? Token.FromHeadAndPayload(this.innerStore.get(storeKey) as string) : Token.CreateEmpty();
-                case TokenStoreType.LocalStorage:
-                    return Token.FromHeadAndPayload((this.localStorageRef as any).getItem(storeKey));
-                case TokenStoreType.SessionStorage:
-                    return Token.FromHeadAndPayload((this.sessionStorageRef as any).getItem(storeKey));
-                case TokenStoreType.ExpirationCookie:
-                case TokenStoreType.SessionCookie:
-                    return this.getTokenFromCookie(storeKey, this.documentRef as Document);
+            const value = await this.backend.get(storeKey) || Token.CreateEmpty().toString();
+            if (value !== this.GetToken(key).toString()) {
+                this.storedValues.set(storeKey, value);
+                this.cache.set(key, Token.FromHeadAndPayload(value));
             }
         } catch (err) {
-            //
+            this.storageError.setValue(err);
         }
-        return Token.CreateEmpty();
+        return this.GetToken(key);
     }
 
     /**
-     * Sets the token with the specified key to the specified value
+     * Sets the token with the specified key to the specified value. Empty tokens will be removed from the storage backend.
+     * Refresh tokens will be ignored in HttpOnly refresh token mode.
      * @param key {TokenType} The key for the token to set
      * @param token {Token} The token to set with the specified key
      */
     public SetToken(key: TokenType, token: Token) {
-        const storeKey = this.getStoreKey(key);
-        const dtaString = token.toString();
-        switch (this.tokenStoreType) {
-            case TokenStoreType.InMemory:
-                this.innerStore.set(storeKey, dtaString);
-                break;
-            case TokenStoreType.LocalStorage:
-                (this.localStorageRef as Storage).setItem(storeKey, dtaString);
-                break;
-            case TokenStoreType.SessionStorage:
-                (this.sessionStorageRef as Storage).setItem(storeKey, dtaString);
-                break;
-            case TokenStoreType.ExpirationCookie:
-                this.setTokenToCookie(storeKey, token, TokenPersist.Expiration, this.documentRef as Document);
-                break;
-            case TokenStoreType.SessionCookie:
-                this.setTokenToCookie(storeKey, token, TokenPersist.Session, this.documentRef as Document);
-                break;
+        this.SetTokens({ [key]: token });
+    }
+
+    /**
+     * Sets multiple tokens at once (e.g. a refreshed access token with a rotated refresh token).
+     * All tokens will be updated before the change notifications and they will be persisted in the same write step,
+     * so a new token won't be observed or stored together with an outdated one.
+     * @param tokens {Partial<Record<TokenType, Token>>} The tokens to set by their keys
+     */
+    public SetTokens(tokens: Partial<Record<TokenType, Token>>) {
+        const changes: ITokenChange[] = (Object.keys(tokens) as TokenType[])
+            .map((key) => ({ key, token: tokens[key] as Token }))
+            .filter((change) => !(this.httpOnlyRefreshToken && change.key === "refresh" && !change.token.IsEmpty));
+        for (const change of changes) {
+            this.cache.set(change.key, change.token);
+        }
+        this.pendingWrites = this.pendingWrites.then(async () => {
+            for (const { key, token } of changes) {
+                const storeKey = this.getStoreKey(key);
+                const dtaString = token.toString();
+                try {
+                    if (dtaString === Token.CreateEmpty().toString()) {
+                        await this.backend.remove(storeKey);
+                    } else {
+                        await this.backend.set(storeKey, dtaString, token.ExpirationTime);
+                    }
+                    this.storedValues.set(storeKey, dtaString);
+                } catch (err) {
+                    // the token remains available from the in-memory cache
+                    this.storageError.setValue(err);
+                }
+            }
+        });
+        for (const change of changes) {
+            this.tokenChanged.setValue(change);
         }
     }
 
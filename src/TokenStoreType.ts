@@ -26,4 +26,9 @@ export enum TokenStoreType {
      *  The token is stored in an in-memory storage (fallback)
      */
     InMemory = "InMemory",
+
+    /**
+     * The token is stored in a custom storage backend
+     */
+    Custom = "Custom",
 }
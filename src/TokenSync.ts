@@ -0,0 +1,73 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { EncryptedStorageBackend } from "./EncryptedStorageBackend";
+import { ITokenSyncMessage } from "./ITokenSyncMessage";
+import { ITokenSyncTransport } from "./ITokenSyncTransport";
+import { Token } from "./Token";
+import { TokenStore, TokenType } from "./TokenStore";
+
+/**
+ * Synchronizes the tokens of a TokenStore with the other browser tabs (or other services of the same site) through a transport.
+ * The tokens of an encrypted store are not sent over the transport, only a change notice that the receivers apply by re-reading
+ * the token from the storage backend, so the encrypted backend has to wrap a storage that is shared between the tabs (e.g. localStorage).
+ */
+export class TokenSync implements IDisposable {
+
+    private isApplyingRemoteChange = false;
+    private isDisposed = false;
+    private readonly subscriptions: IDisposable[];
+    private readonly sendsNotices: boolean = this.tokenStore.backend instanceof EncryptedStorageBackend;
+
+    /**
+     * @param {string} siteName The URL of the related site, messages from other sites will be ignored
+     * @param {TokenStore} tokenStore The store that will be synchronized
+     * @param {ITokenSyncTransport} transport The transport that delivers the messages
+     * @param {(tokenType: TokenType) => void} onRemoteChange Callback that will be called after a token has been updated by a remote change
+     */
+    constructor(private readonly siteName: string,
+                private readonly tokenStore: TokenStore,
+                private readonly transport: ITokenSyncTransport,
+                private readonly onRemoteChange: (tokenType: TokenType) => void) {
+        this.subscriptions = [
+            this.tokenStore.tokenChanged.subscribe((change) => {
+                if (this.isApplyingRemoteChange) {
+                    return;
+                }
+                if (this.sendsNotices) {
+                    // the receivers will read the token from the backend, so it has to be persisted first
+                    this.tokenStore.flush().then(() => !this.isDisposed && this.transport.send({ siteName: this.siteName, tokenType: change.key }));
+                } else {
+                    this.transport.send({ siteName: this.siteName, tokenType: change.key, token: change.token.toString() });
+                }
+            }),
+            this.transport.subscribe((message) => this.applyRemoteChange(message)),
+        ];
+    }
+
+    private applyRemoteChange(message: ITokenSyncMessage) {
+        if (message.siteName !== this.siteName || (message.tokenType !== "access" && message.tokenType !== "refresh")) {
+            return;
+        }
+        if (message.token === undefined) {
+            this.tokenStore.ReloadToken(message.tokenType).then(() => !this.isDisposed && this.onRemoteChange(message.tokenType));
+            return;
+        }
+        this.isApplyingRemoteChange = true;
+        try {
+            this.tokenStore.SetToken(message.tokenType, message.token ? Token.FromHeadAndPayload(message.token) : Token.CreateEmpty());
+        } finally {
+            this.isApplyingRemoteChange = false;
+        }
+        this.onRemoteChange(message.tokenType);
+    }
+
+    /**
+     * Unsubscribes from the token changes and disposes the transport
+     */
+    public dispose() {
+        this.isDisposed = true;
+        for (const subscription of this.subscriptions) {
+            subscription.dispose();
+        }
+        this.transport.dispose();
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * Base class for the errors that can occur during parsing or verifying a token
+ */
+export class TokenVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
@@ -0,0 +1,174 @@
+import { createHmac, createVerify, timingSafeEqual } from "crypto";
+import { IJsonWebKey } from "./IJsonWebKey";
+import { IJsonWebKeySet } from "./IJsonWebKeySet";
+import { InvalidSignatureError } from "./InvalidSignatureError";
+import { MalformedTokenError } from "./MalformedTokenError";
+import { Token } from "./Token";
+import { UnsupportedAlgorithmError } from "./UnsupportedAlgorithmError";
+
+/**
+ * The supported signing algorithms
+ */
+export type TokenVerificationAlgorithm = "HS256" | "RS256" | "ES256";
+
+const supportedAlgorithms: TokenVerificationAlgorithm[] = ["HS256", "RS256", "ES256"];
+
+const keyTypes: { [alg in TokenVerificationAlgorithm]: string } = {
+    HS256: "oct",
+    RS256: "RSA",
+    ES256: "EC",
+};
+
+/**
+ * Returns the algorithms that the key can be used with. A raw secret can be used only for HMAC and a PEM encoded public key only for
+ * the asymmetric algorithms, so that a public key can't be abused as an HMAC secret (algorithm confusion). The keys of a JWKS document are selected by their type.
+ */
+const getKeyAlgorithms = (key: string | Buffer | IJsonWebKeySet): TokenVerificationAlgorithm[] => {
+    if (typeof key !== "string" && !Buffer.isBuffer(key)) {
+        return supportedAlgorithms;
+    }
+    return key.toString().indexOf("-----BEGIN") !== -1 ? ["RS256", "ES256"] : ["HS256"];
+};
+
+/**
+ * Verifies the signature of full, three-part JSON Web Tokens with a shared secret, a PEM encoded public key or a JWKS document.
+ * Intended to be used in Node.js, as it depends on the 'crypto' module.
+ *
+ * Usage example:
+ * ```ts
+ * const verifier = new TokenVerifier(jwksDocument, ["RS256"]);
+ * const token = verifier.verify(jwtString); // throws if the signature is not valid
+ * ```
+ */
+export class TokenVerifier {
+
+    /**
+     * @param {string | Buffer | IJsonWebKeySet} key A shared secret (HS256), a PEM encoded public key (RS256, ES256) or a JWKS document
+     * @param {TokenVerificationAlgorithm[]} algorithms The list of the accepted algorithms, further restricted by the type of the key
+     */
+    constructor(private readonly key: string | Buffer | IJsonWebKeySet,
+                private readonly algorithms: TokenVerificationAlgorithm[] = supportedAlgorithms) {
+    }
+
+    /**
+     * Parses a full JSON Web Token (if provided as a string) and verifies its signature
+     * @param {Token | string} token The token instance or the full, three-part JWT string
+     * @returns {Token} The verified token
+     * @throws {MalformedTokenError} if the token is not a well-formed JWT
+     * @throws {UnsupportedAlgorithmError} if the token has been signed with an algorithm that is not supported, not allowed or doesn't match the type of the key
+     * @throws {InvalidSignatureError} if the signature doesn't match or there is no key for the token
+     */
+    public verify(token: Token | string): Token {
+        const parsed = typeof token === "string" ? Token.FromJwt(token) : token;
+        if (!parsed.Signature) {
+            throw new MalformedTokenError("The token has no signature");
+        }
+        const alg = parsed.GetHeader().alg as TokenVerificationAlgorithm;
+        if (supportedAlgorithms.indexOf(alg) === -1 || this.algorithms.indexOf(alg) === -1) {
+            throw new UnsupportedAlgorithmError(`The algorithm '${alg}' is not supported`);
+        }
+        if (getKeyAlgorithms(this.key).indexOf(alg) === -1) {
+            throw new UnsupportedAlgorithmError(`The algorithm '${alg}' can't be used with the provided key`);
+        }
+        const key = this.getKey(alg, parsed.GetHeader().kid);
+        const signingInput = parsed.toString();
+        const signature = Buffer.from(parsed.Signature, "base64");
+
+        let isValid: boolean;
+        try {
+            if (alg === "HS256") {
+                const expected = createHmac("sha256", key).update(signingInput).digest();
+                isValid = expected.length === signature.length && timingSafeEqual(expected, signature);
+            } else {
+                isValid = createVerify("SHA256").update(signingInput).verify(key, alg === "ES256" ? rawToDerSignature(signature) : signature);
+            }
+        } catch (err) {
+            isValid = false;
+        }
+        if (!isValid) {
+            throw new InvalidSignatureError("The token signature is not valid");
+        }
+        return parsed;
+    }
+
+    private getKey(alg: TokenVerificationAlgorithm, kid?: string): string | Buffer {
+        if (typeof this.key === "string" || Buffer.isBuffer(this.key)) {
+            return this.key;
+        }
+        const candidates = this.key.keys.filter((k) =>
+            k.kty === keyTypes[alg]
+            && (!k.alg || k.alg === alg)
+            && (!k.use || k.use === "sig")
+            && (!kid || k.kid === kid));
+        if (candidates.length !== 1) {
+            throw new InvalidSignatureError(kid ? `There is no key with id '${kid}'` : "The key for the token is not unique or not found");
+        }
+        return jwkToKey(candidates[0]);
+    }
+}
+
+const derLength = (length: number): Buffer => {
+    if (length < 0x80) {
+        return Buffer.from([length]);
+    }
+    const bytes: number[] = [];
+    while (length > 0) {
+        bytes.unshift(length % 0x100);
+        length = Math.floor(length / 0x100);
+    }
+    return Buffer.from([0x80 + bytes.length, ...bytes]);
+};
+
+const der = (tag: number, ...content: Buffer[]): Buffer => {
+    const body = Buffer.concat(content);
+    return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+};
+
+const derInteger = (value: Buffer): Buffer => {
+    let i = 0;
+    while (i < value.length - 1 && value[i] === 0) {
+        i++;
+    }
+    const trimmed = value.slice(i);
+    return der(0x02, trimmed[0] >= 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed);
+};
+
+const rsaEncryptionOid = Buffer.from("06092a864886f70d0101010500", "hex");
+const ecPublicKeyP256Oid = Buffer.from("06072a8648ce3d020106082a8648ce3d030107", "hex");
+
+const toPem = (spki: Buffer) => `-----BEGIN PUBLIC KEY-----\n${(spki.toString("base64").match(/.{1,64}/g) as string[]).join("\n")}\n-----END PUBLIC KEY-----\n`;
+
+const decodeField = (jwk: IJsonWebKey, field: keyof IJsonWebKey) => {
+    const value = jwk[field];
+    if (!value) {
+        throw new InvalidSignatureError(`The key field '${field}' is missing`);
+    }
+    return Buffer.from(value, "base64");
+};
+
+/**
+ * Converts a JSON Web Key to a secret (oct) or to a PEM encoded public key (RSA, EC P-256)
+ */
+const jwkToKey = (jwk: IJsonWebKey): string | Buffer => {
+    switch (jwk.kty) {
+        case "oct":
+            return decodeField(jwk, "k");
+        case "RSA":
+            return toPem(der(0x30, der(0x30, rsaEncryptionOid), der(0x03, Buffer.from([0]), der(0x30, derInteger(decodeField(jwk, "n")), derInteger(decodeField(jwk, "e"))))));
+        default:
+            if (jwk.crv !== "P-256") {
+                throw new UnsupportedAlgorithmError(`The curve '${jwk.crv}' is not supported`);
+            }
+            return toPem(der(0x30, der(0x30, ecPublicKeyP256Oid), der(0x03, Buffer.from([0, 4]), decodeField(jwk, "x"), decodeField(jwk, "y"))));
+    }
+};
+
+/**
+ * Converts a raw (r || s) ECDSA signature from the JWS format to the DER format that the 'crypto' module expects
+ */
+const rawToDerSignature = (signature: Buffer): Buffer => {
+    if (signature.length !== 64) {
+        throw new InvalidSignatureError("The ES256 signature should be 64 bytes long");
+    }
+    return der(0x30, derInteger(signature.slice(0, 32)), derInteger(signature.slice(32)));
+};
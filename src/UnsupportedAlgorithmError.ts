@@ -0,0 +1,7 @@
+import { TokenVerificationError } from "./TokenVerificationError";
+
+/**
+ * The token has been signed with an algorithm that is not supported or not allowed
+ */
+export class UnsupportedAlgorithmError extends TokenVerificationError {
+}
@@ -0,0 +1,19 @@
+/**
+ * This enum represents the loading state of the JwtService's current user
+ */
+export enum UserLoadState {
+    /**
+     * The user content of the current session is being loaded
+     */
+    Loading = "Loading",
+
+    /**
+     * The current user has been loaded (or the Visitor has been set if there is no session)
+     */
+    Loaded = "Loaded",
+
+    /**
+     * The user content couldn't be loaded, the currentUser has been set to the Visitor
+     */
+    Error = "Error",
+}
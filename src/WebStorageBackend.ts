@@ -0,0 +1,46 @@
+import { ITokenStorageBackend } from "./ITokenStorageBackend";
+
+/**
+ * Token storage backend that uses a Web Storage instance (localStorage or sessionStorage)
+ */
+export class WebStorageBackend implements ITokenStorageBackend {
+
+    /**
+     * @param {Storage} storage The localStorage or sessionStorage instance
+     */
+    constructor(private readonly storage: Storage) {
+    }
+
+    /**
+     * Retrieves the value from the storage
+     * @param {string} key The key of the value
+     */
+    public async get(key: string): Promise<string | null> {
+        return this.getSync(key);
+    }
+
+    /**
+     * Retrieves the value from the storage synchronously
+     * @param {string} key The key of the value
+     */
+    public getSync(key: string): string | null {
+        return this.storage.getItem(key);
+    }
+
+    /**
+     * Stores the value in the storage
+     * @param {string} key The key of the value
+     * @param {string} value The value to store
+     */
+    public async set(key: string, value: string): Promise<void> {
+        this.storage.setItem(key, value);
+    }
+
+    /**
+     * Removes the value from the storage
+     * @param {string} key The key of the value
+     */
+    public async remove(key: string): Promise<void> {
+        this.storage.removeItem(key);
+    }
+}
@@ -1,3 +1,58 @@
 export { JwtService } from "./JwtService";
 export { IOauthProvider } from "./IOauthProvider";
 export { ILoginResponse } from "./ILoginResponse";
+export { IClock } from "./IClock";
+export { SystemClock } from "./SystemClock";
+export { ITokenSyncMessage } from "./ITokenSyncMessage";
+export { ITokenSyncTransport } from "./ITokenSyncTransport";
+export { BroadcastChannelTransport } from "./BroadcastChannelTransport";
+export { StorageEventTransport } from "./StorageEventTransport";
+export { ITokenStorageBackend } from "./ITokenStorageBackend";
+export { InMemoryStorageBackend } from "./InMemoryStorageBackend";
+export { WebStorageBackend } from "./WebStorageBackend";
+export { CookieStorageBackend } from "./CookieStorageBackend";
+export { TokenPersist } from "./TokenPersist";
+export { Token } from "./Token";
+export { ITokenPayload } from "./ITokenPayload";
+export { IJwtHeader } from "./IJwtHeader";
+export { IJsonWebKey } from "./IJsonWebKey";
+export { IJsonWebKeySet } from "./IJsonWebKeySet";
+export { TokenVerificationError } from "./TokenVerificationError";
+export { MalformedTokenError } from "./MalformedTokenError";
+export { UnsupportedAlgorithmError } from "./UnsupportedAlgorithmError";
+export { InvalidSignatureError } from "./InvalidSignatureError";
+export { ITokenValidationPolicy } from "./ITokenValidationPolicy";
+export { ITokenValidationResult } from "./ITokenValidationResult";
+export { AuthenticationEventType } from "./AuthenticationEventType";
+export { IAuthenticationEvent } from "./IAuthenticationEvent";
+export { IAuthenticationHooks } from "./IAuthenticationHooks";
+export { ILoginResult } from "./ILoginResult";
+export { LoginResultReason } from "./LoginResultReason";
+export { IIdleTimeoutOptions } from "./IIdleTimeoutOptions";
+export { IPkceOauthProviderOptions } from "./IPkceOauthProviderOptions";
+export { PkceOauthProvider } from "./PkceOauthProvider";
+export { OauthError } from "./OauthError";
+export { ChallengeType } from "./ChallengeType";
+export { ILoginChallenge } from "./ILoginChallenge";
+export { ILoginChallengeResponse } from "./ILoginChallengeResponse";
+export { ISessionInfo } from "./ISessionInfo";
+export { SessionManager } from "./SessionManager";
+export { CookieJar } from "./CookieJar";
+export { CookieJarStorageBackend } from "./CookieJarStorageBackend";
+export { ServerSession } from "./ServerSession";
+export { ICookieOptions } from "./ICookieOptions";
+export { ITokenEncryptionKeyProvider } from "./ITokenEncryptionKeyProvider";
+export { EncryptedStorageBackend } from "./EncryptedStorageBackend";
+export { IndexedDbKeyProvider } from "./IndexedDbKeyProvider";
+export { TokenDecryptionError } from "./TokenDecryptionError";
+export { IServerRequestResult } from "./IServerRequestResult";
+export { IActiveSession } from "./IActiveSession";
+export { IActiveSessionsResult } from "./IActiveSessionsResult";
+export { ConnectionState } from "./ConnectionState";
+export { IRefreshRetryOptions } from "./IRefreshRetryOptions";
+export { AuthorizationService, PermissionName } from "./AuthorizationService";
+export { ReauthenticationRequiredError } from "./ReauthenticationRequiredError";
+export { UserLoadState } from "./UserLoadState";
+export { SkewCompensatedClock } from "./SkewCompensatedClock";
+export { IRefreshInterceptorOptions } from "./IRefreshInterceptorOptions";
+export { IJwtServiceOptions } from "./IJwtServiceOptions";
@@ -0,0 +1,6 @@
+/**
+ * The Node.js entry point of the package. It exports the same API as the main entry point, extended with the features that depend on
+ * the Node.js modules (e.g. the TokenVerifier that uses the 'crypto' module), so that the main entry point can be bundled for the browsers.
+ */
+export * from "./index";
+export { TokenVerifier, TokenVerificationAlgorithm } from "./TokenVerifier";
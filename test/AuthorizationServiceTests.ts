@@ -0,0 +1,142 @@
+import { BypassAuthentication, ConstantContent, Repository } from "@sensenet/client-core";
+import { expect } from "chai";
+import { AuthorizationService } from "../src/AuthorizationService";
+import { JwtService } from "../src/JwtService";
+
+// tslint:disable:completed-docs
+
+export const authorizationServiceTests: Mocha.Suite = describe("AuthorizationService", () => {
+    const alba = { Id: 10, Name: "alba", Path: "/Root/IMS/BuiltIn/Portal/alba", Domain: "BuiltIn", LoginName: "alba" } as any;
+    const bob = { Id: 11, Name: "bob", Path: "/Root/IMS/BuiltIn/Portal/bob", Domain: "BuiltIn", LoginName: "bob" } as any;
+    const groupsByUser: { [path: string]: any[] } = {
+        [alba.Path]: [{ Id: 7, Name: "Administrators", Path: "/Root/IMS/BuiltIn/Portal/Administrators" }],
+        [bob.Path]: [{ Id: 8, Name: "Editors", Path: "/Root/IMS/BuiltIn/Portal/Editors" }],
+    };
+    const allowed: { [path: string]: string[] } = {
+        [alba.Path]: ["/Root/Content|See", "/Root/Content|Save"],
+        [bob.Path]: ["/Root/Content|See"],
+    };
+    let jwtService: JwtService;
+    let authorization: AuthorizationService;
+    let requests: string[];
+    let failRequests: boolean;
+
+    beforeEach(async () => {
+        requests = [];
+        failRequests = false;
+        const repo = new Repository({ repositoryUrl: "https://my-repo" }, async (info: RequestInfo) => {
+            const url = info.toString();
+            requests.push(url);
+            const user = jwtService.currentUser.getValue();
+            if (failRequests) {
+                return { ok: false, status: 500, statusText: "Server error", json: async () => ({}) } as any;
+            }
+            if (url.indexOf("GetParentGroups") !== -1) {
+                return { ok: true, json: async () => ({ d: { __count: 1, results: groupsByUser[user.Path] } }) } as any;
+            }
+            const [, path, permissions] = /odata\.svc\/(.*)\/HasPermission\?permissions=(.*)$/.exec(url) as string[];
+            const contentPath = `/${path.replace("/('", "/").replace("')", "")}`;
+            const result = permissions.split(",").every((p) => allowed[user.Path].indexOf(`${contentPath}|${p}`) !== -1);
+            return { ok: true, text: async () => result.toString() } as any;
+        });
+        jwtService = new JwtService(repo);
+        await jwtService.checkForUpdate();
+        repo.authentication = new BypassAuthentication();
+        authorization = new AuthorizationService(jwtService);
+    });
+
+    afterEach(() => {
+        authorization.dispose();
+        jwtService.dispose();
+    });
+
+    it("should not load anything for the visitor", async () => {
+        await authorization.awaitLoaded();
+        expect(authorization.hasRole("Administrators").getValue()).to.be.eq(false);
+        expect(authorization.hasPermission("/Root/Content", ["See"]).getValue()).to.be.eq(false);
+        expect(requests).to.be.deep.eq([]);
+    });
+
+    it("should load the roles of the current user", async () => {
+        const isAdmin = authorization.hasRole("Administrators");
+        jwtService.currentUser.setValue(alba);
+        await authorization.awaitLoaded();
+        expect(isAdmin.getValue()).to.be.eq(true);
+        expect(authorization.hasRole("/Root/IMS/BuiltIn/Portal/Administrators").getValue()).to.be.eq(true);
+        expect(authorization.hasRole("Editors").getValue()).to.be.eq(false);
+        expect(authorization.groups.getValue().map((g) => g.Name)).to.be.deep.eq(["Administrators"]);
+        expect(authorization.hasRole("Administrators")).to.be.eq(isAdmin);
+    });
+
+    it("should check and cache the permissions", async () => {
+        jwtService.currentUser.setValue(alba);
+        const canSave = authorization.hasPermission("/Root/Content", ["Save", "See"]);
+        await authorization.awaitLoaded();
+        expect(canSave.getValue()).to.be.eq(true);
+        expect(authorization.hasPermission("/Root/Content", ["See", "Save"])).to.be.eq(canSave);
+        expect(authorization.hasPermission("/Root/Content", ["Delete"]).getValue()).to.be.eq(false);
+        await authorization.awaitLoaded();
+        expect(requests.filter((r) => r.indexOf("HasPermission") !== -1).length).to.be.eq(2);
+    });
+
+    it("should reload the results when the user changes", async () => {
+        jwtService.currentUser.setValue(alba);
+        const isAdmin = authorization.hasRole("Administrators");
+        const canSave = authorization.hasPermission("/Root/Content", ["Save"]);
+        await authorization.awaitLoaded();
+        expect([isAdmin.getValue(), canSave.getValue()]).to.be.deep.eq([true, true]);
+        const changes: boolean[] = [];
+        canSave.subscribe((value) => changes.push(value));
+        jwtService.currentUser.setValue(bob);
+        expect(canSave.getValue()).to.be.eq(false);
+        await authorization.awaitLoaded();
+        expect([isAdmin.getValue(), canSave.getValue()]).to.be.deep.eq([false, false]);
+        expect(authorization.hasRole("Editors").getValue()).to.be.eq(true);
+        expect(changes).to.be.deep.eq([false]);
+    });
+
+    it("should clear the results on logout", async () => {
+        jwtService.currentUser.setValue(alba);
+        const isAdmin = authorization.hasRole("Administrators");
+        const canSave = authorization.hasPermission("/Root/Content", ["Save"]);
+        await authorization.awaitLoaded();
+        const count = requests.length;
+        jwtService.currentUser.setValue(ConstantContent.VISITOR_USER);
+        await authorization.awaitLoaded();
+        expect([isAdmin.getValue(), canSave.getValue()]).to.be.deep.eq([false, false]);
+        expect(authorization.groups.getValue()).to.be.deep.eq([]);
+        expect(requests.length).to.be.eq(count);
+    });
+
+    it("should drop the results of the previous user", async () => {
+        jwtService.currentUser.setValue(alba);
+        const canSave = authorization.hasPermission("/Root/Content", ["Save"]);
+        jwtService.currentUser.setValue(ConstantContent.VISITOR_USER);
+        await authorization.awaitLoaded();
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(canSave.getValue()).to.be.eq(false);
+        expect(authorization.hasRole("Administrators").getValue()).to.be.eq(false);
+    });
+
+    it("should reload the results on demand", async () => {
+        jwtService.currentUser.setValue(alba);
+        const canSee = authorization.hasPermission("/Root/Content", ["See"]);
+        await authorization.awaitLoaded();
+        const count = requests.length;
+        await authorization.reload();
+        expect(requests.length).to.be.eq(count + 2);
+        expect(canSee.getValue()).to.be.eq(true);
+    });
+
+    it("should report the errors and deny the access", async () => {
+        failRequests = true;
+        const errors: any[] = [];
+        authorization.loadError.subscribe((error) => errors.push(error));
+        jwtService.currentUser.setValue(alba);
+        const canSee = authorization.hasPermission("/Root/Content", ["See"]);
+        await authorization.awaitLoaded();
+        expect(canSee.getValue()).to.be.eq(false);
+        expect(authorization.hasRole("Administrators").getValue()).to.be.eq(false);
+        expect(errors.length).to.be.greaterThan(0);
+    });
+});
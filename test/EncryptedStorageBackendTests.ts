@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { EncryptedStorageBackend } from "../src/EncryptedStorageBackend";
+import { IndexedDbKeyProvider } from "../src/IndexedDbKeyProvider";
+import { InMemoryStorageBackend } from "../src/InMemoryStorageBackend";
+import { TokenDecryptionError } from "../src/TokenDecryptionError";
+import { TokenPersist } from "../src/TokenPersist";
+import { TokenStore } from "../src/TokenStore";
+import { mockCrypto } from "./MockCrypto";
+import { MockIndexedDb } from "./MockIndexedDb";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+
+export const encryptedStorageBackendTests: Mocha.Suite = describe("EncryptedStorageBackend", () => {
+    let inner: InMemoryStorageBackend;
+    let key: any;
+    let backend: EncryptedStorageBackend;
+
+    beforeEach(async () => {
+        inner = new InMemoryStorageBackend();
+        key = await mockCrypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+        backend = new EncryptedStorageBackend(inner, { getKey: async () => key }, mockCrypto);
+    });
+
+    it("should encrypt the stored values and decrypt them transparently", async () => {
+        await backend.set("sn-access", "head.payload", new Date());
+        const stored = await inner.get("sn-access") as string;
+        expect(stored.startsWith("enc1.")).to.be.eq(true);
+        expect(stored).not.to.contain("payload");
+        expect(await backend.get("sn-access")).to.be.eq("head.payload");
+    });
+
+    it("should use a new IV for every write", async () => {
+        await backend.set("sn-access", "head.payload", new Date());
+        const first = await inner.get("sn-access");
+        await backend.set("sn-access", "head.payload", new Date());
+        expect(await inner.get("sn-access")).not.to.be.eq(first);
+    });
+
+    it("should return null for missing values", async () => {
+        expect(await backend.get("sn-access")).to.be.eq(null);
+    });
+
+    it("should remove the values from the inner backend", async () => {
+        await backend.set("sn-access", "head.payload", new Date());
+        await backend.remove("sn-access");
+        expect(await inner.get("sn-access")).to.be.eq(null);
+    });
+
+    it("should discard plain values", async () => {
+        await inner.set("sn-refresh", "head.payload");
+        try {
+            await backend.get("sn-refresh");
+            throw Error("Should have failed");
+        } catch (err) {
+            expect(err).to.be.instanceof(TokenDecryptionError);
+            expect(err.key).to.be.eq("sn-refresh");
+        }
+        expect(await inner.get("sn-refresh")).to.be.eq(null);
+    });
+
+    it("should discard values that have been encrypted with another key", async () => {
+        await backend.set("sn-refresh", "head.payload", new Date());
+        const otherKey = await mockCrypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+        const otherBackend = new EncryptedStorageBackend(inner, { getKey: async () => otherKey }, mockCrypto);
+        try {
+            await otherBackend.get("sn-refresh");
+            throw Error("Should have failed");
+        } catch (err) {
+            expect(err).to.be.instanceof(TokenDecryptionError);
+        }
+        expect(await inner.get("sn-refresh")).to.be.eq(null);
+    });
+
+    it("should discard values that have been moved to another key", async () => {
+        await backend.set("sn-refresh", "head.payload", new Date());
+        await inner.set("sn-access", await inner.get("sn-refresh") as string);
+        try {
+            await backend.get("sn-access");
+            throw Error("Should have failed");
+        } catch (err) {
+            expect(err).to.be.instanceof(TokenDecryptionError);
+        }
+        expect(await backend.get("sn-refresh")).to.be.eq("head.payload");
+    });
+
+    it("should keep the values and retry if the key can't be loaded", async () => {
+        await backend.set("sn-access", "head.payload", new Date());
+        let calls = 0;
+        const failingBackend = new EncryptedStorageBackend(inner, {
+            getKey: async () => {
+                if (++calls === 1) {
+                    throw Error("Key not available");
+                }
+                return key;
+            },
+        }, mockCrypto);
+        try {
+            await failingBackend.get("sn-access");
+            throw Error("Should have failed");
+        } catch (err) {
+            expect(err.message).to.be.eq("Key not available");
+        }
+        expect(await failingBackend.get("sn-access")).to.be.eq("head.payload");
+        expect(calls).to.be.eq(2);
+    });
+
+    it("should work as a TokenStore backend and report the discarded tokens", async () => {
+        const token = MockTokenFactory.CreateValid();
+        const store = new TokenStore("https://my_token_store", "${siteName}-${tokenName}", TokenPersist.Expiration, undefined, undefined, undefined, backend);
+        await store.ready;
+        store.AccessToken = token;
+        await store.flush();
+        const reloaded = new TokenStore("https://my_token_store", "${siteName}-${tokenName}", TokenPersist.Expiration, undefined, undefined, undefined, backend);
+        await reloaded.ready;
+        expect(reloaded.AccessToken.toString()).to.be.eq(token.toString());
+
+        await inner.set("https://my_token_store-access", token.toString());
+        const tampered = new TokenStore("https://my_token_store", "${siteName}-${tokenName}", TokenPersist.Expiration, undefined, undefined, undefined, backend);
+        await tampered.ready;
+        expect(tampered.AccessToken.IsEmpty).to.be.eq(true);
+        expect(tampered.storageError.getValue()).to.be.instanceof(TokenDecryptionError);
+        expect(await inner.get("https://my_token_store-access")).to.be.eq(null);
+    });
+
+    describe("IndexedDbKeyProvider", () => {
+        it("should generate a non-extractable key and reuse it from the database", async () => {
+            const indexedDb = new MockIndexedDb();
+            const generated = await new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle).getKey() as any;
+            expect(generated.extractable).to.be.eq(false);
+            expect(generated.usages).to.be.deep.eq(["encrypt", "decrypt"]);
+            const loaded = await new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle).getKey();
+            expect(loaded).to.be.eq(generated);
+            expect(indexedDb.closeCount).to.be.eq(indexedDb.openCount);
+        });
+
+        it("should return the key that has been stored first on concurrent access", async () => {
+            const indexedDb = new MockIndexedDb();
+            const [first, second] = await Promise.all([
+                new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle).getKey(),
+                new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle).getKey(),
+            ]);
+            expect(first).to.be.eq(second);
+        });
+
+        it("should use separate keys per database", async () => {
+            const indexedDb = new MockIndexedDb();
+            const first = await new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle, "db1").getKey();
+            const second = await new IndexedDbKeyProvider(indexedDb as any, mockCrypto.subtle, "db2").getKey();
+            expect(first).not.to.be.eq(second);
+        });
+    });
+});
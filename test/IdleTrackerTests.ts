@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import { IdleTracker } from "../src/IdleTracker";
+import { MockClock } from "./MockClock";
+
+// tslint:disable:completed-docs
+
+export const idleTrackerTests: Mocha.Suite = describe("IdleTracker", () => {
+    let clock: MockClock;
+    let warnings: number;
+    let timeouts: number;
+    let tracker: IdleTracker;
+
+    beforeEach(() => {
+        clock = new MockClock();
+        warnings = 0;
+        timeouts = 0;
+        tracker = new IdleTracker(60000, 10000, () => warnings++, () => timeouts++, clock);
+    });
+
+    afterEach(() => {
+        tracker.dispose();
+    });
+
+    it("should warn before the timeout", () => {
+        tracker.touch();
+        clock.tick(49999);
+        expect(warnings).to.be.eq(0);
+        expect(tracker.isIdle).to.be.eq(false);
+        clock.tick(1);
+        expect(warnings).to.be.eq(1);
+        expect(timeouts).to.be.eq(0);
+        expect(tracker.isIdle).to.be.eq(true);
+    });
+
+    it("should time out after the specified inactivity", () => {
+        tracker.touch();
+        clock.tick(50000);
+        clock.tick(10000);
+        expect(warnings).to.be.eq(1);
+        expect(timeouts).to.be.eq(1);
+        expect(clock.pendingTimers).to.be.eq(0);
+    });
+
+    it("should restart the countdown on touch", () => {
+        tracker.touch();
+        clock.tick(55000);
+        tracker.touch();
+        expect(tracker.isIdle).to.be.eq(false);
+        clock.tick(55000);
+        expect(timeouts).to.be.eq(0);
+        expect(clock.pendingTimers).to.be.eq(1);
+    });
+
+    it("should time out without a warning if the warning period is 0", () => {
+        tracker = new IdleTracker(60000, 0, () => warnings++, () => timeouts++, clock);
+        tracker.touch();
+        clock.tick(60000);
+        expect(warnings).to.be.eq(0);
+        expect(timeouts).to.be.eq(1);
+    });
+
+    it("should stop the countdown", () => {
+        tracker.touch();
+        tracker.stop();
+        clock.tick(60000);
+        expect(warnings).to.be.eq(0);
+        expect(timeouts).to.be.eq(0);
+    });
+});
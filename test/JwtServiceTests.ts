@@ -1,9 +1,23 @@
-import { LoginState, Repository } from "@sensenet/client-core";
+import { ConstantContent, LoginState, Repository } from "@sensenet/client-core";
 import { expect } from "chai";
 import { JwtService } from "../src";
+import { ChallengeType } from "../src/ChallengeType";
+import { ConnectionState } from "../src/ConnectionState";
+import { IAuthenticationEvent } from "../src/IAuthenticationEvent";
+import { ILoginChallenge } from "../src/ILoginChallenge";
+import { ILoginChallengeResponse } from "../src/ILoginChallengeResponse";
 import { ILoginResponse } from "../src/ILoginResponse";
+import { InMemoryStorageBackend } from "../src/InMemoryStorageBackend";
+import { IOauthProvider } from "../src/IOauthProvider";
 import { IRefreshResponse } from "../src/IRefreshResponse";
+import { LoginResultReason } from "../src/LoginResultReason";
+import { ReauthenticationRequiredError } from "../src/ReauthenticationRequiredError";
+import { Token } from "../src/Token";
+import { TokenStoreType } from "../src/TokenStoreType";
+import { UserLoadState } from "../src/UserLoadState";
+import { MockClock } from "./MockClock";
 import { MockTokenFactory } from "./MockTokenFactory";
+import { MockTokenSyncTransport } from "./MockTokenSyncTransport";
 
 // tslint:disable:completed-docs
 // tslint:disable:no-string-literal
@@ -26,6 +40,46 @@ export const jwtServiceTests: Mocha.Suite = describe("JwtService", () => {
         expect(jwtService2).to.be.instanceof(JwtService);
     });
 
+    it("can be constructed with a custom storage backend", async () => {
+        const backend = new InMemoryStorageBackend();
+        await backend.set(`sn-${repo.configuration.repositoryUrl}-access`, MockTokenFactory.CreateValid().toString());
+        const jwtService2 = new JwtService(repo, undefined, undefined, { storageBackend: backend });
+        jwtService2.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+        expect(jwtService2["tokenStore"].tokenStoreType).to.be.eq(TokenStoreType.Custom);
+        const hasRefreshed = await jwtService2.checkForUpdate();
+        expect(hasRefreshed).to.be.eq(false);
+        expect(jwtService2.state.getValue()).to.be.eq(LoginState.Authenticated);
+    });
+
+    it("should keep the session without an unhandled rejection if it is constructed while offline", async () => {
+        const rejections: any[] = [];
+        const onUnhandledRejection = (reason: any) => rejections.push(reason);
+        process.on("unhandledRejection", onUnhandledRejection);
+        const backend = new InMemoryStorageBackend();
+        await backend.set(`sn-${repo.configuration.repositoryUrl}-access`, MockTokenFactory.CreateExpired().toString());
+        await backend.set(`sn-${repo.configuration.repositoryUrl}-refresh`, MockTokenFactory.CreateValid().toString());
+        const offlineRepo = new Repository({}, (async () => { throw new Error("Network error"); }) as any);
+        const jwtService2 = new JwtService(offlineRepo, undefined, undefined, { storageBackend: backend });
+        jwtService2.configureRefreshRetry({ maxRetries: 0 }, new MockClock());
+        jwtService2.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+        expect(await offlineRepo.awaitReadyState()).to.be.eq(undefined);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        process.removeListener("unhandledRejection", onUnhandledRejection);
+        expect(rejections).to.be.deep.eq([]);
+        expect(jwtService2.connectionState.getValue()).to.be.eq(ConnectionState.Offline);
+        expect(jwtService2.state.getValue()).to.be.eq(LoginState.Authenticated);
+        jwtService2.dispose();
+    });
+
+    it("should reject the tokens that don't match the validation policy", () => {
+        const jwtService2 = new JwtService(repo, undefined, undefined, { validationPolicy: { issuer: "https://my-site" } });
+        const result = jwtService2.handleAuthenticationResponse({
+            access: MockTokenFactory.CreateValidWithClaims({ iss: "https://other-site" }).toString(),
+            refresh: MockTokenFactory.CreateValidWithClaims({ iss: "https://other-site" }).toString(),
+        });
+        expect(result).to.be.eq(false);
+    });
+
     it("can be disposed with oauth providers", (done: MochaDone) => {
         jwtService.oauthProviders.add({
             login: null as any,
@@ -37,6 +91,12 @@ export const jwtServiceTests: Mocha.Suite = describe("JwtService", () => {
         jwtService.dispose();
     });
 
+    it("should return the current access token", () => {
+        const token = MockTokenFactory.CreateValidWithClaims({ sub: "1" });
+        jwtService["tokenStore"].AccessToken = token;
+        expect(jwtService.getAccessToken().GetClaim("sub")).to.be.eq("1");
+    });
+
     describe("#checkForUpdate()", () => {
         it("should return false if not token is set", async () => {
             const hasRefreshed = await jwtService.checkForUpdate();
@@ -65,6 +125,43 @@ export const jwtServiceTests: Mocha.Suite = describe("JwtService", () => {
             const hasRefreshed = await jwtService.checkForUpdate();
             expect(hasRefreshed).to.be.eq(true);
         });
+
+        it("should share a single refresh request between concurrent callers", async () => {
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            let refreshCount = 0;
+            repo["fetchMethod"] = async () => {
+                refreshCount++;
+                return {
+                    ok: true,
+                    json: async () => ({
+                        access: MockTokenFactory.CreateValid().toString(),
+                    } as IRefreshResponse),
+                };
+            };
+            const results = await Promise.all([1, 2, 3, 4, 5].map(() => jwtService.checkForUpdate()));
+            expect(refreshCount).to.be.eq(1);
+            expect(results).to.be.deep.eq([true, true, true, true, true]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should resolve every waiting caller with the same result if the refresh fails", async () => {
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            jwtService.configureRefreshRetry({ maxRetries: 0 }, new MockClock());
+            const error = new Error("Network error");
+            let refreshCount = 0;
+            repo["fetchMethod"] = async () => {
+                refreshCount++;
+                throw error;
+            };
+            const results = await Promise.all([1, 2, 3].map(() => jwtService.checkForUpdate()));
+            expect(refreshCount).to.be.eq(1);
+            expect(results).to.be.deep.eq([true, true, true]);
+
+            await jwtService.checkForUpdate();
+            expect(refreshCount).to.be.eq(2);
+        });
     });
 
     describe("#execTokenRefresh()", () => {
@@ -98,44 +195,283 @@ export const jwtServiceTests: Mocha.Suite = describe("JwtService", () => {
             expect(hasRefreshed).to.be.eq(true);
             expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
         });
-    });
 
-    describe("#handleAuthenticationResponse()", () => {
-        it("should update the tokens", () => {
-            const at = MockTokenFactory.CreateValid().toString();
-            const rt =  MockTokenFactory.CreateNotValidYet().toString();
-            jwtService.handleAuthenticationResponse({
-                access: at,
-                refresh: rt,
-            });
-            expect(jwtService["tokenStore"].AccessToken.toString()).to.be.eq(at);
-            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(rt);
+        it("Should store the rotated refresh token with the access token", async () => {
+            const oldRefresh = MockTokenFactory.CreateValid();
+            jwtService["tokenStore"].RefreshToken = oldRefresh;
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            const response: IRefreshResponse = {
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid(60000000).toString(),
+            };
+            repo["fetchMethod"] = async () => ({ ok: true, json: async () => response });
+            await jwtService["execTokenRefresh"]();
+            expect(jwtService["tokenStore"].AccessToken.toString()).to.be.eq(response.access);
+            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(response.refresh);
         });
 
-        it("should return true if the access token is valid", () => {
-            const at = MockTokenFactory.CreateValid().toString();
-            const rt =  MockTokenFactory.CreateNotValidYet().toString();
-            const result = jwtService.handleAuthenticationResponse({
-                access: at,
-                refresh: rt,
-            });
-            expect(result).to.be.eq(true);
+        it("Should keep the refresh token if the server doesn't rotate it", async () => {
+            const refresh = MockTokenFactory.CreateValid();
+            jwtService["tokenStore"].RefreshToken = refresh;
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            repo["fetchMethod"] = async () => ({ ok: true, json: async () => ({ access: MockTokenFactory.CreateValid().toString() }) });
+            await jwtService["execTokenRefresh"]();
+            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(refresh.toString());
         });
 
-        it("should return false if the access token is not valid", () => {
-            const at = MockTokenFactory.CreateExpired().toString();
-            const rt =  MockTokenFactory.CreateNotValidYet().toString();
-            const result = jwtService.handleAuthenticationResponse({
-                access: at,
-                refresh: rt,
+        it("Should clear the tokens and emit a dedicated event if the reuse of a rotated token is detected", async () => {
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateExpired();
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            const events: IAuthenticationEvent[] = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            repo["fetchMethod"] = async () => ({
+                ok: false,
+                status: 401,
+                json: async () => ({ error: { code: "RefreshTokenReused", message: { value: "The refresh token has already been used" } } }),
             });
-            expect(result).to.be.eq(false);
+            await jwtService["execTokenRefresh"]();
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(jwtService["tokenStore"].AccessToken.IsEmpty).to.be.eq(true);
+            expect(jwtService["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+            expect(events).to.be.deep.eq([{ type: "refreshTokenReused", status: 401 }]);
+            expect(await jwtService.checkForUpdate()).to.be.eq(false);
+        });
+
+        it("Should adopt the refresh token that has been rotated by another instance instead of clearing the shared tokens", async () => {
+            const backend = new InMemoryStorageBackend();
+            const r1 = MockTokenFactory.CreateValidWithClaims({ sub: "r1" });
+            const r2 = MockTokenFactory.CreateValidWithClaims({ sub: "r2" });
+            const r3 = MockTokenFactory.CreateValidWithClaims({ sub: "r3" });
+            await backend.set(`sn-${repo.configuration.repositoryUrl}-refresh`, r1.toString());
+            const jwtService2 = new JwtService(repo, undefined, undefined, { storageBackend: backend });
+            await jwtService2.flushTokens();
+            await jwtService2.checkForUpdate();
+            jwtService2.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            // another tab has rotated the token in the shared storage
+            await backend.set(`sn-${repo.configuration.repositoryUrl}-refresh`, r2.toString());
+            const events: IAuthenticationEvent[] = [];
+            jwtService2.events.subscribe((event) => events.push(event));
+            const sentTokens: string[] = [];
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => {
+                const sent = (init.headers as any)["X-Refresh-Data"];
+                sentTokens.push(sent);
+                return sent === r2.toString()
+                    ? { ok: true, status: 200, json: async () => ({ access: MockTokenFactory.CreateValid().toString(), refresh: r3.toString() }) }
+                    : { ok: false, status: 401, json: async () => ({ error: { code: "RefreshTokenReused" } }) };
+            };
+            await jwtService2["execTokenRefresh"]();
+            await jwtService2.flushTokens();
+            expect(sentTokens).to.be.deep.eq([r1.toString(), r2.toString()]);
+            expect(events).to.be.deep.eq([{ type: "tokenRefreshed" }]);
+            expect(jwtService2.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(await backend.get(`sn-${repo.configuration.repositoryUrl}-refresh`)).to.be.eq(r3.toString());
+            jwtService2.dispose();
         });
 
+        it("Should emit refreshFailed for other errors", async () => {
+            const refresh = MockTokenFactory.CreateValid();
+            jwtService["tokenStore"].RefreshToken = refresh;
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            const events: IAuthenticationEvent[] = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            repo["fetchMethod"] = async () => ({ ok: false, status: 403, json: async () => ({ error: { code: "Forbidden" } }) });
+            await jwtService["execTokenRefresh"]();
+            expect(events).to.be.deep.eq([{ type: "refreshFailed", status: 403 }]);
+            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(refresh.toString());
+        });
     });
 
-    describe("#login()", () => {
-        it("should update status to authenticated if response is ok", async () => {
+    describe("#configureRefreshRetry()", () => {
+        const flush = () => new Promise((resolve) => setImmediate(resolve));
+        let clock: MockClock;
+        let onlineListeners: Set<() => void>;
+        let responses: Array<() => any>;
+        let requestCount: number;
+
+        beforeEach(() => {
+            clock = new MockClock();
+            onlineListeners = new Set();
+            responses = [];
+            requestCount = 0;
+            jwtService.configureRefreshRetry({
+                maxRetries: 2,
+                initialDelayMs: 100,
+                maxDelayMs: 1000,
+                onlineEventTarget: {
+                    addEventListener: (type: string, listener: any) => onlineListeners.add(listener),
+                    removeEventListener: (type: string, listener: any) => onlineListeners.delete(listener),
+                },
+            }, clock);
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            repo["fetchMethod"] = async () => {
+                requestCount++;
+                return (responses.shift() || (() => { throw Error("Network error"); }))();
+            };
+        });
+
+        const ok = () => ({ ok: true, status: 200, json: async () => ({ access: MockTokenFactory.CreateValid().toString() }) });
+        const serviceUnavailable = () => ({ ok: false, status: 503, json: async () => ({}) });
+
+        it("should retry the transient failures with exponential backoff", async () => {
+            responses.push(serviceUnavailable, serviceUnavailable, ok);
+            const refresh = jwtService.checkForUpdate();
+            await flush();
+            expect(requestCount).to.be.eq(1);
+            clock.tick(99);
+            await flush();
+            expect(requestCount).to.be.eq(1);
+            clock.tick(1);
+            await flush();
+            expect(requestCount).to.be.eq(2);
+            clock.tick(200);
+            expect(await refresh).to.be.eq(true);
+            expect(requestCount).to.be.eq(3);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+        });
+
+        it("should not retry if the server has rejected the refresh token", async () => {
+            responses.push(() => ({ ok: false, status: 401, json: async () => ({}) }));
+            await jwtService.checkForUpdate();
+            expect(requestCount).to.be.eq(1);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should end the session on permanent client errors", async () => {
+            for (const status of [400, 404]) {
+                jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+                responses.push(() => ({ ok: false, status, json: async () => ({}) }));
+                await jwtService.checkForUpdate();
+                expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+                expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+            }
+            expect(requestCount).to.be.eq(2);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should retry on Request Timeout and Too Many Requests responses", async () => {
+            responses.push(() => ({ ok: false, status: 408, json: async () => ({}) }), () => ({ ok: false, status: 429, json: async () => ({}) }), ok);
+            const refresh = jwtService.checkForUpdate();
+            await flush();
+            clock.tick(100);
+            await flush();
+            clock.tick(200);
+            expect(await refresh).to.be.eq(true);
+            expect(requestCount).to.be.eq(3);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+        });
+
+        it("should keep the session in Degraded state and resume after the maximum delay", async () => {
+            responses.push(serviceUnavailable, serviceUnavailable, serviceUnavailable);
+            const events: IAuthenticationEvent[] = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            const refresh = jwtService.checkForUpdate();
+            await flush();
+            clock.tick(100);
+            await flush();
+            clock.tick(200);
+            expect(await refresh).to.be.eq(true);
+            expect(requestCount).to.be.eq(3);
+            expect(events).to.be.deep.eq([{ type: "refreshFailed", status: 503 }]);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Degraded);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(jwtService["tokenStore"].RefreshToken.IsValid()).to.be.eq(true);
+
+            responses.push(ok);
+            clock.tick(1000);
+            await flush();
+            expect(requestCount).to.be.eq(4);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+            expect(onlineListeners.size).to.be.eq(0);
+        });
+
+        it("should go Offline on network errors and resume when the connectivity returns", async () => {
+            const refresh = jwtService.checkForUpdate();
+            await flush();
+            clock.tick(100);
+            await flush();
+            clock.tick(200);
+            expect(await refresh).to.be.eq(true);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Offline);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+
+            responses.push(ok);
+            onlineListeners.forEach((listener) => listener());
+            await flush();
+            expect(requestCount).to.be.eq(4);
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should stop the retries and the resume on logout", async () => {
+            responses.push(serviceUnavailable, serviceUnavailable, serviceUnavailable);
+            const refresh = jwtService.checkForUpdate();
+            await flush();
+            clock.tick(100);
+            await flush();
+            clock.tick(200);
+            await refresh;
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Degraded);
+            responses.push(ok);
+            await jwtService.logout();
+            expect(jwtService.connectionState.getValue()).to.be.eq(ConnectionState.Online);
+            expect(clock.pendingTimers).to.be.eq(0);
+            expect(onlineListeners.size).to.be.eq(0);
+
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            jwtService["refreshRejected"] = false;
+            const count = requestCount;
+            responses.push(serviceUnavailable);
+            const retried = jwtService.checkForUpdate();
+            await flush();
+            jwtService["tokenStore"].RefreshToken = Token.CreateEmpty();
+            clock.tick(100);
+            await retried;
+            expect(requestCount).to.be.eq(count + 1);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+    });
+
+    describe("#startRefreshScheduler()", () => {
+        let clock: MockClock;
+        beforeEach(() => {
+            clock = new MockClock();
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+        });
+
+        afterEach(() => {
+            jwtService.dispose();
+        });
+
+        it("should refresh the access token before it expires and reschedule", async () => {
+            let refreshCount = 0;
+            repo["fetchMethod"] = async () => {
+                refreshCount++;
+                return {
+                    ok: true,
+                    json: async () => ({
+                        access: MockTokenFactory.CreateValid(6000000).toString(),
+                    } as IRefreshResponse),
+                };
+            };
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            jwtService.startRefreshScheduler(clock);
+            expect(clock.pendingTimers).to.be.eq(1);
+            clock.tick(3000000);
+            await jwtService["pendingRefresh"];
+            expect(refreshCount).to.be.eq(1);
+            expect(clock.pendingTimers).to.be.eq(1);
+        });
+
+        it("should schedule after login", async () => {
+            jwtService.startRefreshScheduler(clock);
+            expect(clock.pendingTimers).to.be.eq(0);
             repo["fetchMethod"] = async () => {
                 return {
                     ok: true,
@@ -145,35 +481,1441 @@ export const jwtServiceTests: Mocha.Suite = describe("JwtService", () => {
                     } as ILoginResponse),
                 };
             };
-            const success = await jwtService.login("user", "pass");
-            expect(success).to.be.eq(true);
+            await jwtService.login("user", "pass");
+            expect(clock.pendingTimers).to.be.eq(1);
+        });
+
+        it("should not refresh if the refresh token is not valid", async () => {
+            let refreshCount = 0;
+            repo["fetchMethod"] = async () => {
+                refreshCount++;
+                return { ok: false };
+            };
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            jwtService.startRefreshScheduler(clock);
+            clock.tick(3000000);
+            expect(await jwtService["execBackgroundRefresh"]()).to.be.eq(false);
+            expect(refreshCount).to.be.eq(0);
+        });
+
+        it("should stop on logout", async () => {
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            jwtService.startRefreshScheduler(clock);
+            await jwtService.logout();
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should stop on dispose", () => {
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            jwtService.startRefreshScheduler(clock);
+            jwtService.dispose();
+            expect(clock.pendingTimers).to.be.eq(0);
+            expect(jwtService["refreshScheduler"]).to.be.eq(undefined);
+        });
+    });
+
+    describe("#enableIdleTimeout()", () => {
+        let clock: MockClock;
+        let events: IAuthenticationEvent[];
+        beforeEach(() => {
+            clock = new MockClock();
+            events = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService.state.setValue(LoginState.Authenticated);
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+        });
+
+        afterEach(() => {
+            jwtService.dispose();
+        });
+
+        it("should emit idleWarning and log out on timeout", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000, warningMs: 10000 }, clock);
+            clock.tick(50000);
+            expect(events).to.be.deep.eq([{ type: "idleWarning" }]);
+            clock.tick(10000);
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            expect(events).to.be.deep.eq([{ type: "idleWarning" }, { type: "idleTimeout" }, { type: "loggedOut" }]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(jwtService["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+        });
+
+        it("should restart the countdown on touch()", () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            clock.tick(50000);
+            jwtService.touch();
+            clock.tick(50000);
+            expect(events).to.be.deep.eq([]);
             expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
         });
 
-        it("should update status to unauthenticated if response is not ok", async () => {
+        it("should record the repository requests as activities", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            clock.tick(50000);
+            await repo.fetch("http://example.com", {}, false);
+            clock.tick(50000);
+            expect(events).to.be.deep.eq([]);
+        });
+
+        it("should not record the repository requests if disabled", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000, trackRequests: false }, clock);
+            clock.tick(50000);
+            await repo.fetch("http://example.com", {}, false);
+            clock.tick(10000);
+            expect(events[0]).to.be.deep.eq({ type: "idleTimeout" });
+        });
+
+        it("should not refresh in the background when idle, if configured", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000, warningMs: 10000, stopRefreshWhenIdle: true }, clock);
+            clock.tick(50000);
+            expect(await jwtService["execBackgroundRefresh"]()).to.be.eq(false);
+        });
+
+        it("should not record the token requests of the service as activities", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            clock.tick(50000);
+            await repo.fetch(`${repo.configuration.repositoryUrl}/sn-token/refresh`, {}, false);
+            clock.tick(10000);
+            expect(events[0]).to.be.deep.eq({ type: "idleTimeout" });
+        });
+
+        it("should log out an idle user even if the tokens are refreshed in the background", async () => {
+            const flush = () => new Promise((resolve) => setImmediate(resolve));
+            // the access tokens expire in 60 seconds on the mock clock
+            const createAccessToken = () => MockTokenFactory.CreateValidWithClaims({ exp: clock.now().getTime() / 1000 + 60 });
+            let refreshCount = 0;
             repo["fetchMethod"] = async () => {
-                return {
-                    ok: false,
-                    json: async () => ({}),
-                };
+                refreshCount++;
+                return { ok: true, status: 200, json: async () => ({ access: createAccessToken().toString() }) } as any;
             };
-            const success = await jwtService.login("user", "pass");
-            expect(success).to.be.eq(false);
+            jwtService["tokenStore"].AccessToken = createAccessToken();
+            jwtService.startRefreshScheduler(clock);
+            jwtService.enableIdleTimeout({ timeoutMs: 180000, warningMs: 60000, stopRefreshWhenIdle: true }, clock);
+            for (let elapsed = 0; elapsed < 15 * 60000; elapsed += 5000) {
+                clock.tick(5000);
+                await flush();
+            }
+            expect(events.map((event) => event.type)).to.contain("idleTimeout");
             expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(refreshCount).to.be.lessThan(4);
+        });
+
+        it("should restore the repository fetch method when disabled", () => {
+            const fetch = repo.fetch;
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            expect(repo.fetch).not.to.be.eq(fetch);
+            jwtService.disableIdleTimeout();
+            expect(repo.fetch).to.be.eq(fetch);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should keep a wrapper that has been installed after it when disabled", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            jwtService.enableRefreshInterceptor();
+            const interceptedFetch = repo.fetch;
+            jwtService.disableIdleTimeout();
+            expect(repo.fetch).to.be.eq(interceptedFetch);
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, clock);
+            clock.tick(50000);
+            // the previous idle wrapper passes the requests through
+            await repo.fetch("http://example.com", {}, false);
+            clock.tick(50000);
+            expect(events).to.be.deep.eq([]);
+            jwtService.disableRefreshInterceptor();
+            jwtService.disableIdleTimeout();
         });
     });
 
-    describe("#logout()", () => {
-        it("should invalidate the tokens", async () => {
+    describe("#enableRefreshInterceptor()", () => {
+        const mockResponse = (status: number, headers: { [name: string]: string } = {}) => ({
+            ok: status < 300,
+            status,
+            headers: { get: (name: string) => headers[name] || null },
+        });
+        let requests: Array<{ url: string, init: RequestInit }>;
+        let responses: any[];
+        let refreshCount: number;
+        let url: string;
+
+        beforeEach(() => {
+            requests = [];
+            responses = [];
+            refreshCount = 0;
+            url = `${repo.configuration.repositoryUrl}/odata.svc/Root`;
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            jwtService.state.setValue(LoginState.Authenticated);
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => {
+                if (info.toString().indexOf("sn-token/refresh") !== -1) {
+                    refreshCount++;
+                    return {
+                        ok: true,
+                        status: 200,
+                        json: async () => ({ access: MockTokenFactory.CreateValidWithClaims({ sub: `refreshed-${refreshCount}` }).toString() }),
+                    } as any;
+                }
+                requests.push({ url: info.toString(), init });
+                return responses.shift() || mockResponse(200);
+            };
+            jwtService.enableRefreshInterceptor();
+        });
+
+        afterEach(() => {
+            jwtService.dispose();
+        });
+
+        it("should refresh the tokens and replay the request after a 401 response", async () => {
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url);
+            expect(response.status).to.be.eq(200);
+            expect(refreshCount).to.be.eq(1);
+            expect(requests.length).to.be.eq(2);
+            expect(jwtService.getAccessToken().GetClaim("sub")).to.be.eq("refreshed-1");
+        });
+
+        it("should replay the request only once", async () => {
+            responses.push(mockResponse(401), mockResponse(401));
+            const response = await repo.fetch(url, { method: "GET" });
+            expect(response.status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(1);
+            expect(requests.length).to.be.eq(2);
+        });
+
+        it("should detect the expired tokens from the WWW-Authenticate header", async () => {
+            responses.push(mockResponse(403, { "WWW-Authenticate": "Bearer error=\"invalid_token\", error_description=\"The token expired\"" }));
+            const response = await repo.fetch(url);
+            expect(response.status).to.be.eq(200);
+            expect(refreshCount).to.be.eq(1);
+        });
+
+        it("should not replay the other error responses", async () => {
+            responses.push(mockResponse(403), mockResponse(500));
+            expect((await repo.fetch(url)).status).to.be.eq(403);
+            expect((await repo.fetch(url)).status).to.be.eq(500);
+            expect(refreshCount).to.be.eq(0);
+            expect(requests.length).to.be.eq(2);
+        });
+
+        it("should not replay non-idempotent requests by default", async () => {
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url, { method: "POST", body: "{}" });
+            expect(response.status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(0);
+            expect(requests.length).to.be.eq(1);
+        });
+
+        it("should replay the requests with the configured methods", async () => {
+            jwtService.enableRefreshInterceptor({ replayMethods: ["post"] });
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url, { method: "POST", body: "{}" });
+            expect(response.status).to.be.eq(200);
+            expect(requests.length).to.be.eq(2);
+            expect(requests[1].init.body).to.be.eq("{}");
+        });
+
+        it("should not replay the requests with streamed bodies", async () => {
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url, { method: "PUT", body: { getReader: () => undefined } as any });
+            expect(response.status).to.be.eq(401);
+            expect(requests.length).to.be.eq(1);
+        });
+
+        it("should not replay the token requests of the service", async () => {
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(`${repo.configuration.repositoryUrl}/sn-token/sessions`, { method: "GET" }, false);
+            expect(response.status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(0);
+        });
+
+        it("should use a custom rejection check", async () => {
+            jwtService.enableRefreshInterceptor({ isTokenRejected: (response) => response.status === 419 });
+            responses.push(mockResponse(419));
+            expect((await repo.fetch(url)).status).to.be.eq(200);
+            expect(refreshCount).to.be.eq(1);
+        });
+
+        it("should share the refresh between the concurrent requests", async () => {
+            responses.push(mockResponse(401), mockResponse(401));
+            const [first, second] = await Promise.all([repo.fetch(url), repo.fetch(url)]);
+            expect(first.status).to.be.eq(200);
+            expect(second.status).to.be.eq(200);
+            expect(refreshCount).to.be.eq(1);
+            expect(requests.length).to.be.eq(4);
+        });
+
+        it("should replace the access token in the headers of the replayed request", async () => {
+            responses.push(mockResponse(401));
+            await repo.fetch(url, { headers: { "X-Access-Data": jwtService.getAccessToken().toString() } });
+            expect(requests[1].init.headers).to.be.deep.eq({ "X-Access-Data": jwtService.getAccessToken().toString() });
+            expect(requests[0].init.headers).to.not.be.deep.eq(requests[1].init.headers);
+        });
+
+        it("should return the rejected response if the tokens can't be refreshed", async () => {
+            jwtService["tokenStore"].RefreshToken = Token.CreateEmpty();
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url);
+            expect(response.status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(0);
+        });
+
+        it("should return the rejected response if the refresh fails", async () => {
+            const fetchMethod = repo["fetchMethod"];
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => info.toString().indexOf("sn-token/refresh") !== -1
+                ? mockResponse(401) as any : fetchMethod(info, init);
+            responses.push(mockResponse(401));
+            const response = await repo.fetch(url);
+            expect(response.status).to.be.eq(401);
+            expect(requests.length).to.be.eq(1);
+        });
+
+        it("should restore the original fetch when disabled", async () => {
+            jwtService.disableRefreshInterceptor();
+            responses.push(mockResponse(401));
+            expect((await repo.fetch(url)).status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(0);
+        });
+
+        it("should pass the requests through if it has been disabled after another wrapper", async () => {
+            jwtService.enableIdleTimeout({ timeoutMs: 60000 }, new MockClock());
+            jwtService.disableRefreshInterceptor();
+            responses.push(mockResponse(401));
+            expect((await repo.fetch(url)).status).to.be.eq(401);
+            expect(refreshCount).to.be.eq(0);
+        });
+    });
+
+    describe("#enableSessionSync()", () => {
+        let bus: Set<MockTokenSyncTransport>;
+        let otherService: JwtService;
+        beforeEach(() => {
+            bus = new Set();
+            otherService = new JwtService(new Repository({}, (async () => ({ ok: true })) as any));
+            otherService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService.enableSessionSync(new MockTokenSyncTransport(bus));
+            otherService.enableSessionSync(new MockTokenSyncTransport(bus));
+        });
+
+        afterEach(() => {
+            otherService.dispose();
+            jwtService.dispose();
+        });
+
+        it("should update the other services on login", () => {
             jwtService.handleAuthenticationResponse({
                 access: MockTokenFactory.CreateValid().toString(),
                 refresh: MockTokenFactory.CreateValid().toString(),
             });
-            const success = await jwtService.logout();
-            expect(success).to.be.eq(true);
-            expect(jwtService["tokenStore"].AccessToken.IsValid()).to.be.eq(false);
-            expect(jwtService["tokenStore"].RefreshToken.IsValid()).to.be.eq(false);
+            expect(otherService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(otherService["tokenStore"].RefreshToken.toString()).to.be.eq(jwtService["tokenStore"].RefreshToken.toString());
+        });
+
+        it("should log out the other services on logout", async () => {
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            const clock = new MockClock();
+            otherService.startRefreshScheduler(clock);
+            await jwtService.logout();
+            expect(otherService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(clock.pendingTimers).to.be.eq(0);
+        });
+
+        it("should keep the state if only the access token has been invalidated", () => {
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            jwtService["tokenStore"].AccessToken = Token.CreateEmpty();
+            expect(otherService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should stop syncing when disabled", () => {
+            otherService.disableSessionSync();
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            expect(otherService["tokenStore"].AccessToken.IsValid()).to.be.eq(false);
+        });
+    });
+
+    describe("#events", () => {
+        let events: IAuthenticationEvent[];
+        beforeEach(() => {
+            events = [];
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService.events.subscribe((event) => events.push(event));
+        });
+
+        it("should emit loginSucceeded", async () => {
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                json: async () => ({
+                    access: MockTokenFactory.CreateValid().toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                } as ILoginResponse),
+            });
+            await jwtService.login("user", "pass");
+            expect(events).to.be.deep.eq([{ type: "loginSucceeded" }]);
+        });
+
+        it("should emit loginFailed with the HTTP status", async () => {
+            repo["fetchMethod"] = async () => ({ ok: false, status: 403 });
+            await jwtService.login("user", "pass");
+            expect(events).to.be.deep.eq([{ type: "loginFailed", status: 403 }]);
+        });
+
+        it("should emit loginFailed on network errors", async () => {
+            const error = new Error("Network error");
+            repo["fetchMethod"] = async () => { throw error; };
+            const result = await jwtService.login("user", "pass");
+            expect(result).to.be.eq(false);
+            expect(events).to.be.deep.eq([{ type: "loginFailed", error }]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+
+        it("should emit tokenRefreshed", async () => {
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                json: async () => ({ access: MockTokenFactory.CreateValid().toString() } as IRefreshResponse),
+            });
+            await jwtService.checkForUpdate();
+            expect(events).to.be.deep.eq([{ type: "tokenRefreshed" }]);
+        });
+
+        it("should emit refreshFailed with the HTTP status", async () => {
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            repo["fetchMethod"] = async () => ({ ok: false, status: 401 });
+            await jwtService.checkForUpdate();
+            expect(events).to.be.deep.eq([{ type: "refreshFailed", status: 401 }]);
+        });
 
+        it("should emit refreshFailed on network errors", async () => {
+            jwtService.configureRefreshRetry({ maxRetries: 0 }, new MockClock());
+            const error = new Error("Network error");
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            repo["fetchMethod"] = async () => { throw error; };
+            expect(await jwtService.checkForUpdate()).to.be.eq(true);
+            expect(events).to.be.deep.eq([{ type: "refreshFailed", error }]);
+        });
+
+        it("should emit sessionExpired if the refresh token has been expired", async () => {
+            jwtService.state.setValue(LoginState.Authenticated);
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateExpired();
+            await jwtService.checkForUpdate();
+            expect(events).to.be.deep.eq([{ type: "sessionExpired" }]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+
+        it("should emit loggedOut", async () => {
+            await jwtService.logout();
+            expect(events).to.be.deep.eq([{ type: "loggedOut" }]);
+        });
+
+        it("should emit storageError", async () => {
+            const error = new Error("Storage unavailable");
+            const jwtService2 = new JwtService(repo, undefined, undefined, {
+                storageBackend: {
+                    get: async () => { throw error; },
+                    set: async () => undefined,
+                    remove: async () => undefined,
+                },
+            });
+            const storageEvents: IAuthenticationEvent[] = [];
+            jwtService2.events.subscribe((event) => storageEvents.push(event));
+            await jwtService2["tokenStore"].ready;
+            expect(storageEvents[0]).to.be.deep.eq({ type: "storageError", error });
+            jwtService2.dispose();
+        });
+    });
+
+    describe("#addHooks()", () => {
+        let calls: string[];
+        beforeEach(() => {
+            calls = [];
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            jwtService.addHooks({
+                beforeLogin: async (username) => { calls.push(`beforeLogin ${username}`); },
+                afterLogin: (success) => { calls.push(`afterLogin ${success}`); },
+                beforeRefresh: () => { calls.push("beforeRefresh"); },
+                afterRefresh: (success) => { calls.push(`afterRefresh ${success}`); },
+                beforeLogout: () => { calls.push("beforeLogout"); },
+                afterLogout: () => { calls.push("afterLogout"); },
+            });
+        });
+
+        it("should call the login hooks", async () => {
+            repo["fetchMethod"] = async () => {
+                calls.push("fetch");
+                return { ok: false, status: 403 };
+            };
+            await jwtService.login("user", "pass");
+            expect(calls).to.be.deep.eq(["beforeLogin user", "fetch", "afterLogin false"]);
+        });
+
+        it("should call the refresh hooks", async () => {
+            jwtService["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+            repo["fetchMethod"] = async () => {
+                calls.push("fetch");
+                return {
+                    ok: true,
+                    json: async () => ({ access: MockTokenFactory.CreateValid().toString() } as IRefreshResponse),
+                };
+            };
+            await jwtService.checkForUpdate();
+            expect(calls).to.be.deep.eq(["beforeRefresh", "fetch", "afterRefresh true"]);
+        });
+
+        it("should call the logout hooks", async () => {
+            repo["fetchMethod"] = async () => {
+                calls.push("fetch");
+                return { ok: true };
+            };
+            await jwtService.logout();
+            expect(calls).to.be.deep.eq(["beforeLogout", "fetch", "afterLogout"]);
+        });
+
+        it("should propagate the errors of the hooks", async () => {
+            const error = new Error("Hook failed");
+            jwtService.addHooks({ beforeLogin: () => { throw error; } });
+            const result = await jwtService.login("user", "pass").catch((e) => e);
+            expect(result).to.be.eq(error);
+        });
+
+        it("should not call the hooks after they have been disposed", async () => {
+            const subscription = jwtService.addHooks({ beforeLogout: () => { calls.push("disposed"); } });
+            subscription.dispose();
+            await jwtService.logout();
+            expect(calls).to.not.include("disposed");
+        });
+    });
+
+    describe("#handleAuthenticationResponse()", () => {
+        it("should update the tokens", () => {
+            const at = MockTokenFactory.CreateValid().toString();
+            const rt =  MockTokenFactory.CreateNotValidYet().toString();
+            jwtService.handleAuthenticationResponse({
+                access: at,
+                refresh: rt,
+            });
+            expect(jwtService["tokenStore"].AccessToken.toString()).to.be.eq(at);
+            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(rt);
+        });
+
+        it("should return true if the access token is valid", () => {
+            const at = MockTokenFactory.CreateValid().toString();
+            const rt =  MockTokenFactory.CreateNotValidYet().toString();
+            const result = jwtService.handleAuthenticationResponse({
+                access: at,
+                refresh: rt,
+            });
+            expect(result).to.be.eq(true);
+        });
+
+        it("should return false if the access token is not valid", () => {
+            const at = MockTokenFactory.CreateExpired().toString();
+            const rt =  MockTokenFactory.CreateNotValidYet().toString();
+            const result = jwtService.handleAuthenticationResponse({
+                access: at,
+                refresh: rt,
+            });
+            expect(result).to.be.eq(false);
+        });
+
+    });
+
+    describe("#login()", () => {
+        it("should update status to authenticated if response is ok", async () => {
+            repo["fetchMethod"] = async () => {
+                return {
+                    ok: true,
+                    json: async () => ({
+                        access: MockTokenFactory.CreateValid().toString(),
+                        refresh: MockTokenFactory.CreateValid().toString(),
+                    } as ILoginResponse),
+                };
+            };
+            const success = await jwtService.login("user", "pass");
+            expect(success).to.be.eq(true);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should update status to unauthenticated if response is not ok", async () => {
+            repo["fetchMethod"] = async () => {
+                return {
+                    ok: false,
+                    json: async () => ({}),
+                };
+            };
+            const success = await jwtService.login("user", "pass");
+            expect(success).to.be.eq(false);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+    });
+
+    describe("HttpOnly refresh token mode", () => {
+        let requests: RequestInit[];
+        let refreshOk: boolean;
+        beforeEach(() => {
+            requests = [];
+            refreshOk = true;
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => {
+                requests.push(init);
+                return refreshOk ? {
+                    ok: true,
+                    json: async () => ({ access: MockTokenFactory.CreateValid().toString() } as IRefreshResponse),
+                } : { ok: false, status: 401 };
+            };
+            jwtService = new JwtService(repo, undefined, undefined, { storageBackend: new InMemoryStorageBackend(), cookieOptions: { httpOnlyRefreshToken: true } });
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+        });
+
+        it("should refresh without the refresh token", async () => {
+            expect(await jwtService.checkForUpdate()).to.be.eq(true);
+            expect(requests[0].headers).to.be.deep.eq({ "X-Authentication-Type": "Token" });
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should not retry the refresh after the server has rejected it", async () => {
+            refreshOk = false;
+            await jwtService.checkForUpdate();
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            const count = requests.length;
+            expect(await jwtService.checkForUpdate()).to.be.eq(false);
+            expect(requests.length).to.be.eq(count);
+        });
+
+        it("should accept login responses without a refresh token", () => {
+            expect(jwtService.handleAuthenticationResponse({ access: MockTokenFactory.CreateValid().toString() } as ILoginResponse)).to.be.eq(true);
+            expect(jwtService.getAccessToken().IsValid()).to.be.eq(true);
+        });
+
+        it("should not refresh after logout", async () => {
+            await jwtService.logout();
+            const count = requests.length;
+            expect(await jwtService.checkForUpdate()).to.be.eq(false);
+            expect(requests.length).to.be.eq(count);
+        });
+    });
+
+    describe("#loginWithResult()", () => {
+        const errorResponse = (status: number, message?: string) => async () => ({
+            ok: false,
+            status,
+            statusText: "Status text",
+            json: async () => message ? ({ error: { code: "Error", message: { lang: "en-us", value: message } } }) : ({}),
+        });
+
+        it("should resolve with Success", async () => {
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    access: MockTokenFactory.CreateValid().toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                } as ILoginResponse),
+            });
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result).to.be.deep.eq({ success: true, reason: LoginResultReason.Success, status: 200 });
+        });
+
+        it("should resolve with Unknown if the response doesn't contain the tokens", async () => {
+            const events: IAuthenticationEvent[] = [];
+            const calls: string[] = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            jwtService.addHooks({ afterLogin: (success) => { calls.push(`afterLogin ${success}`); } });
+            const invalidResponses = [
+                async () => ({ ok: true, status: 200, json: async () => { throw new SyntaxError("Unexpected token <"); } }),
+                async () => ({ ok: true, status: 200, json: async () => ({ message: "ok" }) }),
+            ];
+            for (const response of invalidResponses) {
+                repo["fetchMethod"] = response;
+                const result = await jwtService.loginWithResult("user", "pass");
+                expect(result).to.be.deep.eq({
+                    success: false,
+                    reason: LoginResultReason.Unknown,
+                    status: 200,
+                    message: "The response doesn't contain the tokens",
+                });
+                expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            }
+            expect(events).to.be.deep.eq([{ type: "loginFailed", status: 200 }, { type: "loginFailed", status: 200 }]);
+            expect(calls).to.be.deep.eq(["afterLogin false", "afterLogin false"]);
+        });
+
+        it("should resolve with InvalidCredentials and the error message", async () => {
+            repo["fetchMethod"] = errorResponse(403, "Invalid username or password.");
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result).to.be.deep.eq({
+                success: false,
+                reason: LoginResultReason.InvalidCredentials,
+                status: 403,
+                message: "Invalid username or password.",
+            });
+        });
+
+        it("should resolve with AccountLocked", async () => {
+            repo["fetchMethod"] = errorResponse(403, "The user account is locked.");
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result.reason).to.be.eq(LoginResultReason.AccountLocked);
+            repo["fetchMethod"] = errorResponse(423);
+            const lockedResult = await jwtService.loginWithResult("user", "pass");
+            expect(lockedResult.reason).to.be.eq(LoginResultReason.AccountLocked);
+            expect(lockedResult.message).to.be.eq("Status text");
+        });
+
+        it("should resolve with ServerError", async () => {
+            repo["fetchMethod"] = errorResponse(500, "Something went wrong");
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result.reason).to.be.eq(LoginResultReason.ServerError);
+            expect(result.message).to.be.eq("Something went wrong");
+        });
+
+        it("should resolve with Unknown for unexpected statuses", async () => {
+            repo["fetchMethod"] = async () => ({ ok: false, status: 400, json: async () => { throw new Error("Not JSON"); } });
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result).to.be.deep.eq({ success: false, reason: LoginResultReason.Unknown, status: 400, message: undefined });
+        });
+
+        it("should resolve with NetworkError", async () => {
+            const error = new Error("Network error");
+            repo["fetchMethod"] = async () => { throw error; };
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result).to.be.deep.eq({ success: false, reason: LoginResultReason.NetworkError, error });
+        });
+
+        it("should resolve with InvalidToken and the validation result", async () => {
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    access: MockTokenFactory.CreateExpired().toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                } as ILoginResponse),
+            });
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result.success).to.be.eq(false);
+            expect(result.reason).to.be.eq(LoginResultReason.InvalidToken);
+            expect(result.validation && result.validation.failedClaim).to.be.eq("exp");
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+    });
+
+    describe("#completeChallenge()", () => {
+        const challenge: ILoginChallenge = { type: ChallengeType.Totp, token: "challenge-token", allowedTypes: [ChallengeType.RecoveryCode] };
+        let requests: RequestInit[];
+        let events: IAuthenticationEvent[];
+        beforeEach(() => {
+            requests = [];
+            events = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => {
+                requests.push(init);
+                if (info.toString().indexOf("sn-token/login") >= 0) {
+                    return { ok: true, status: 200, json: async () => ({ challenge } as ILoginChallengeResponse) };
+                }
+                if (info.toString().indexOf("sn-token/challenge") < 0) {
+                    return { ok: true, status: 200 };
+                }
+                const body = JSON.parse(init.body as string);
+                return body.code === "123456" ? {
+                    ok: true,
+                    status: 200,
+                    json: async () => ({
+                        access: MockTokenFactory.CreateValid().toString(),
+                        refresh: MockTokenFactory.CreateValid().toString(),
+                    } as ILoginResponse),
+                } : {
+                    ok: false,
+                    status: 403,
+                    json: async () => ({ error: { code: "Forbidden", message: { lang: "en-us", value: "Invalid code." } } }),
+                };
+            };
+        });
+
+        it("should return the challenge on login", async () => {
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result).to.be.deep.eq({ success: false, reason: LoginResultReason.ChallengeRequired, status: 200, challenge });
+            expect(jwtService.pendingChallenge.getValue()).to.be.deep.eq(challenge);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(events).to.be.deep.eq([{ type: "challengeRequired" }]);
+            expect(await jwtService.login("user", "pass")).to.be.eq(false);
+        });
+
+        it("should finish the login with a valid code", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            const result = await jwtService.completeChallenge("123456");
+            expect(result).to.be.deep.eq({ success: true, reason: LoginResultReason.Success, status: 200 });
+            expect(JSON.parse(requests[1].body as string)).to.be.deep.eq({ token: "challenge-token", type: "totp", code: "123456" });
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(jwtService.pendingChallenge.getValue()).to.be.eq(undefined);
+            expect(events).to.be.deep.eq([{ type: "challengeRequired" }, { type: "loginSucceeded" }]);
+        });
+
+        it("should send the specified code type", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            await jwtService.completeChallenge("recovery-code", ChallengeType.RecoveryCode);
+            expect(JSON.parse(requests[1].body as string).type).to.be.eq("recovery");
+        });
+
+        it("should keep the challenge pending if the code is not accepted", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            const result = await jwtService.completeChallenge("000000");
+            expect(result).to.be.deep.eq({ success: false, reason: LoginResultReason.InvalidCredentials, status: 403, message: "Invalid code." });
+            expect(jwtService.pendingChallenge.getValue()).to.be.deep.eq(challenge);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+
+        it("should resolve with NetworkError on network errors", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            const error = new Error("Network error");
+            repo["fetchMethod"] = async () => { throw error; };
+            const result = await jwtService.completeChallenge("123456");
+            expect(result).to.be.deep.eq({ success: false, reason: LoginResultReason.NetworkError, error });
+        });
+
+        it("should pair the login hooks on both steps", async () => {
+            const calls: string[] = [];
+            jwtService.addHooks({
+                beforeLogin: (username) => { calls.push(`beforeLogin ${username}`); },
+                afterLogin: (success) => { calls.push(`afterLogin ${success}`); },
+            });
+            await jwtService.loginWithResult("user", "pass");
+            await jwtService.completeChallenge("000000");
+            await jwtService.completeChallenge("123456");
+            expect(calls).to.be.deep.eq([
+                "beforeLogin user", "afterLogin false",
+                "beforeLogin user", "afterLogin false",
+                "beforeLogin user", "afterLogin true",
+            ]);
+        });
+
+        it("should keep the challenge pending if the response doesn't contain the tokens", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            repo["fetchMethod"] = async () => ({ ok: true, status: 200, json: async () => { throw new SyntaxError("Unexpected token <"); } });
+            const result = await jwtService.completeChallenge("123456");
+            expect(result.reason).to.be.eq(LoginResultReason.Unknown);
+            expect(jwtService.pendingChallenge.getValue()).to.be.deep.eq(challenge);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(events).to.be.deep.eq([{ type: "challengeRequired" }, { type: "loginFailed", status: 200 }]);
+        });
+
+        it("should throw if there is no pending challenge", async () => {
+            const error = await jwtService.completeChallenge("123456").catch((e) => e);
+            expect(error.message).to.be.eq("There is no pending login challenge");
+        });
+
+        it("should clear the pending challenge on logout", async () => {
+            await jwtService.loginWithResult("user", "pass");
+            await jwtService.logout();
+            expect(jwtService.pendingChallenge.getValue()).to.be.eq(undefined);
+        });
+    });
+
+    describe("#reauthenticate()", () => {
+        const now = () => Math.floor(new Date().getTime() / 1000);
+        let requests: RequestInit[];
+        let refresh: Token;
+
+        beforeEach(() => {
+            requests = [];
+            refresh = MockTokenFactory.CreateValid();
+            jwtService.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Mock" } as any);
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValidWithClaims({ auth_time: now() - 3600 }).toString(),
+                refresh: refresh.toString(),
+            });
+            jwtService.state.setValue(LoginState.Authenticated);
+        });
+
+        const respondWith = (response: any) => {
+            repo["fetchMethod"] = async (info: RequestInfo, init: RequestInit) => {
+                requests.push(init);
+                return response;
+            };
+        };
+
+        it("should store the elevated access token and keep the refresh token", async () => {
+            const elevated = MockTokenFactory.CreateValidWithClaims({ auth_time: now() });
+            respondWith({ ok: true, status: 200, json: async () => ({ access: elevated.toString() }) });
+            const events: IAuthenticationEvent[] = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            expect(jwtService.isAuthenticationFresh()).to.be.eq(false);
+            const result = await jwtService.reauthenticate("pass");
+            expect(result).to.be.deep.eq({ success: true, reason: LoginResultReason.Success, status: 200 });
+            expect((requests[0].headers as any).Authorization).to.be.eq(`Basic ${Buffer.from("BuiltIn\\Mock:pass").toString("base64")}`);
+            expect(jwtService.getAccessToken().toString()).to.be.eq(elevated.toString());
+            expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(refresh.toString());
+            expect(jwtService.isAuthenticationFresh()).to.be.eq(true);
+            expect(events).to.be.deep.eq([{ type: "reauthenticated" }]);
+        });
+
+        it("should keep the session if the password is not accepted", async () => {
+            const access = jwtService.getAccessToken().toString();
+            respondWith({ ok: false, status: 403, statusText: "Forbidden", json: async () => ({}) });
+            const result = await jwtService.reauthenticate("wrong");
+            expect(result.reason).to.be.eq(LoginResultReason.InvalidCredentials);
+            expect(jwtService.getAccessToken().toString()).to.be.eq(access);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should keep the session if the received token is not valid", async () => {
+            const access = jwtService.getAccessToken().toString();
+            respondWith({ ok: true, status: 200, json: async () => ({ access: MockTokenFactory.CreateExpired().toString() }) });
+            const result = await jwtService.reauthenticate("pass");
+            expect(result.reason).to.be.eq(LoginResultReason.InvalidToken);
+            expect(jwtService.getAccessToken().toString()).to.be.eq(access);
+        });
+
+        it("should resolve with the challenge or the network error", async () => {
+            const challenge: ILoginChallenge = { type: ChallengeType.Totp, token: "challenge-token" };
+            respondWith({ ok: true, status: 200, json: async () => ({ challenge }) });
+            const result = await jwtService.reauthenticate("pass");
+            expect(result.reason).to.be.eq(LoginResultReason.ChallengeRequired);
+            expect(jwtService.pendingChallenge.getValue()).to.be.deep.eq(challenge);
+            const error = Error("Network error");
+            repo["fetchMethod"] = async () => {
+                throw error;
+            };
+            expect(await jwtService.reauthenticate("pass")).to.be.deep.eq({ success: false, reason: LoginResultReason.NetworkError, error });
+        });
+
+        it("should throw if there is no logged in user", async () => {
+            jwtService.state.setValue(LoginState.Unauthenticated);
+            try {
+                await jwtService.reauthenticate("pass");
+                throw Error("Should have failed");
+            } catch (error) {
+                expect(error.message).to.be.eq("There is no logged in user to reauthenticate");
+            }
+        });
+
+        describe("#requireRecentAuthentication()", () => {
+            it("should resolve if the authentication is fresh", async () => {
+                jwtService.reauthenticationWindowMs = 2 * 3600 * 1000;
+                await jwtService.requireRecentAuthentication();
+                expect(requests.length).to.be.eq(0);
+            });
+
+            it("should throw if there is no prompt", async () => {
+                try {
+                    await jwtService.requireRecentAuthentication();
+                    throw Error("Should have failed");
+                } catch (error) {
+                    expect(error).to.be.instanceof(ReauthenticationRequiredError);
+                    expect(error.authenticationTime).to.be.deep.eq(jwtService.getAccessToken().AuthenticationTime);
+                }
+            });
+
+            it("should ask for the password and reauthenticate", async () => {
+                respondWith({ ok: true, status: 200, json: async () => ({ access: MockTokenFactory.CreateValidWithClaims({ auth_time: now() }).toString() }) });
+                jwtService.reauthenticationPrompt = async () => "pass";
+                await jwtService.requireRecentAuthentication();
+                expect(requests.length).to.be.eq(1);
+                await jwtService.requireRecentAuthentication();
+                expect(requests.length).to.be.eq(1);
+            });
+
+            it("should throw if the prompt has been cancelled or the reauthentication has failed", async () => {
+                respondWith({ ok: false, status: 403, statusText: "Forbidden", json: async () => ({}) });
+                jwtService.reauthenticationPrompt = async () => undefined;
+                await jwtService.requireRecentAuthentication().then(() => { throw Error("Should have failed"); }, (error) => {
+                    expect(error).to.be.instanceof(ReauthenticationRequiredError);
+                });
+                jwtService.reauthenticationPrompt = async () => "wrong";
+                await jwtService.requireRecentAuthentication().then(() => { throw Error("Should have failed"); }, (error) => {
+                    expect(error.message).to.be.eq("Forbidden");
+                });
+            });
+
+            it("should not count a token refresh as a fresh authentication", async () => {
+                const clock = new MockClock();
+                const jwtService2 = new JwtService(repo, undefined, undefined, { storageBackend: new InMemoryStorageBackend(), clock });
+                jwtService2.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Mock" } as any);
+                const issueToken = () => {
+                    const iat = Math.floor(clock.now().getTime() / 1000);
+                    return MockTokenFactory.CreateValidWithClaims({ iat, exp: iat + 3600 }).toString();
+                };
+                repo["fetchMethod"] = async () => ({ ok: true, status: 200, json: async () => ({ access: issueToken(), refresh: issueToken() }) });
+                await jwtService2["tokenStore"].ready;
+                await jwtService2.login("user", "pass");
+                const loginTime = clock.now();
+                expect(jwtService2.isAuthenticationFresh()).to.be.eq(true);
+
+                clock.tick(jwtService2.reauthenticationWindowMs + 1000);
+                jwtService2["tokenStore"].AccessToken = MockTokenFactory.CreateExpired();
+                expect(await jwtService2.checkForUpdate()).to.be.eq(true);
+                expect(jwtService2.getAccessToken().IssuedDate.getTime()).to.be.greaterThan(loginTime.getTime());
+                expect(jwtService2.isAuthenticationFresh()).to.be.eq(false);
+                const error = await jwtService2.requireRecentAuthentication().catch((e) => e);
+                expect(error).to.be.instanceof(ReauthenticationRequiredError);
+                expect(error.authenticationTime).to.be.deep.eq(loginTime);
+                jwtService2.dispose();
+            });
+        });
+    });
+
+    describe("#loginWith()", () => {
+        let calls: string[];
+        let provider: IOauthProvider;
+        beforeEach(() => {
+            calls = [];
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+            provider = {
+                getToken: async () => "provider-token",
+                login: async (token: string) => {
+                    calls.push(`login:${token}`);
+                    jwtService.handleAuthenticationResponse({
+                        access: MockTokenFactory.CreateValid().toString(),
+                        refresh: MockTokenFactory.CreateValid().toString(),
+                    });
+                },
+                logout: async () => {
+                    calls.push("logout");
+                },
+                refresh: async (refreshToken: string) => {
+                    calls.push("refresh");
+                    return { access: MockTokenFactory.CreateValid().toString() };
+                },
+                dispose: () => undefined,
+            };
+            repo["fetchMethod"] = async () => ({ ok: true, json: async () => ({}) });
+        });
+
+        it("should log in with the registered provider and record it", async () => {
+            jwtService.registerProvider("mock", provider);
+            expect(jwtService.getProvider("mock")).to.be.eq(provider);
+            expect(jwtService.oauthProviders.has(provider)).to.be.eq(true);
+            const success = await jwtService.loginWith("mock");
+            expect(success).to.be.eq(true);
+            expect(calls).to.be.deep.eq(["login:provider-token"]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(jwtService.sessionProviderName).to.be.eq("mock");
+        });
+
+        it("should throw if the provider is not registered", async () => {
+            const error = await jwtService.loginWith("unknown").catch((e) => e);
+            expect(error.message).to.be.eq("There is no Oauth Provider registered with the name 'unknown'");
+        });
+
+        it("should set the state to Unauthenticated if the provider login fails", async () => {
+            const error = new Error("Provider error");
+            jwtService.registerProvider("mock", { ...provider, login: async () => { throw error; } });
+            expect(await jwtService.loginWith("mock").catch((e) => e)).to.be.eq(error);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+            expect(jwtService.sessionProviderName).to.be.eq(undefined);
+        });
+
+        it("should return false if the provider doesn't provide a valid token", async () => {
+            jwtService.registerProvider("mock", { ...provider, login: async () => undefined });
+            expect(await jwtService.loginWith("mock")).to.be.eq(false);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+
+        it("should not take an existing session as the result of a failed provider login", async () => {
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            jwtService.registerProvider("failing", { ...provider, login: async () => false });
+            jwtService.registerProvider("silent", { ...provider, login: async () => undefined });
+            expect(await jwtService.loginWith("failing")).to.be.eq(false);
+            expect(jwtService.sessionProviderName).to.be.eq(undefined);
+            expect(await jwtService.loginWith("silent")).to.be.eq(false);
+            expect(jwtService.sessionProviderName).to.be.eq(undefined);
+        });
+
+        it("should refresh with the provider that has created the session", async () => {
+            jwtService.registerProvider("mock", provider);
+            await jwtService.loginWith("mock");
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateExpired();
+            expect(await jwtService.checkForUpdate()).to.be.eq(true);
+            expect(calls).to.be.deep.eq(["login:provider-token", "refresh"]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        });
+
+        it("should log out from the provider that has created the session", async () => {
+            jwtService.registerProvider("mock", provider);
+            await jwtService.loginWith("mock");
+            await jwtService.logout();
+            expect(calls).to.be.deep.eq(["login:provider-token", "logout"]);
+            expect(jwtService.sessionProviderName).to.be.eq(undefined);
+        });
+
+        it("should complete the logout if the sign-out of the provider fails", async () => {
+            const events: IAuthenticationEvent[] = [];
+            jwtService.registerProvider("mock", { ...provider, logout: async () => { throw new Error("Provider error"); } });
+            await jwtService.loginWith("mock");
+            jwtService.events.subscribe((event) => events.push(event));
+            jwtService.addHooks({ afterLogout: () => { calls.push("afterLogout"); } });
+            expect(await jwtService.logout()).to.be.eq(false);
+            expect(events).to.be.deep.eq([{ type: "loggedOut" }]);
+            expect(calls).to.be.deep.eq(["login:provider-token", "afterLogout"]);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        });
+
+        it("should call the login hooks", async () => {
+            jwtService.addHooks({
+                beforeLogin: (name) => { calls.push(`beforeLogin ${name}`); },
+                afterLogin: (success) => { calls.push(`afterLogin ${success}`); },
+            });
+            jwtService.registerProvider("mock", provider);
+            jwtService.registerProvider("failing", { ...provider, login: async () => { throw new Error("Provider error"); } });
+            await jwtService.loginWith("mock");
+            await jwtService.loginWith("failing").catch(() => undefined);
+            expect(calls).to.be.deep.eq([
+                "beforeLogin mock", "login:provider-token", "afterLogin true",
+                "beforeLogin failing", "afterLogin false",
+            ]);
+        });
+
+        it("should forget the provider on password login", async () => {
+            jwtService.registerProvider("mock", provider);
+            await jwtService.loginWith("mock");
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                json: async () => ({
+                    access: MockTokenFactory.CreateValid().toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                } as ILoginResponse),
+            });
+            await jwtService.login("user", "pass");
+            expect(jwtService.sessionProviderName).to.be.eq(undefined);
+        });
+
+        it("should unregister the provider", () => {
+            const registration = jwtService.registerProvider("mock", provider);
+            registration.dispose();
+            expect(jwtService.getProvider("mock")).to.be.eq(undefined);
+            expect(jwtService.oauthProviders.has(provider)).to.be.eq(false);
+        });
+    });
+
+    describe("Clock skew compensation", () => {
+        const nowInSeconds = () => new Date().getTime() / 1000;
+
+        beforeEach(() => {
+            jwtService.currentUser.setValue({Domain: "BuiltIn", LoginName: "Mock"} as any);
+        });
+
+        it("should estimate the skew from the Date header of the login response", async () => {
+            const serverTime = new Date(new Date().getTime() + 180000);
+            repo["fetchMethod"] = async () => ({
+                ok: true,
+                status: 200,
+                headers: { get: (name: string) => name === "Date" ? serverTime.toUTCString() : null },
+                json: async () => ({
+                    access: MockTokenFactory.CreateValidWithClaims({ nbf: nowInSeconds() + 120 }).toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                } as ILoginResponse),
+            });
+            const result = await jwtService.loginWithResult("user", "pass");
+            expect(result.success).to.be.eq(true);
+            expect(jwtService.clock.skewMs).to.be.within(178000, 182000);
+            expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+            expect(await jwtService.checkForUpdate()).to.be.eq(false);
+        });
+
+        it("should estimate the skew from the issued date of a fresh access token", () => {
+            const issuedAt = nowInSeconds() - 600;
+            const success = jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValidWithClaims({ iat: issuedAt, exp: issuedAt + 300 }).toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            expect(success).to.be.eq(true);
+            expect(jwtService.clock.skewMs).to.be.within(-602000, -598000);
+        });
+
+        it("should use the injected local clock for the validity checks", async () => {
+            const clock = new MockClock();
+            const jwtService2 = new JwtService(repo, undefined, undefined, { storageBackend: new InMemoryStorageBackend(), clock });
+            await jwtService2.checkForUpdate();
+            jwtService2["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+            expect(jwtService2["isTokenValid"](jwtService2["tokenStore"].AccessToken)).to.be.eq(true);
+            clock.tick(3600000);
+            expect(jwtService2.clock.now().getTime()).to.be.eq(clock.now().getTime());
+            expect(jwtService2["isTokenValid"](jwtService2["tokenStore"].AccessToken)).to.be.eq(false);
+            jwtService2.dispose();
+        });
+
+        it("should schedule the background refresh in local time", () => {
+            const clock = new MockClock();
+            jwtService.clock.adjust(new Date(new Date().getTime() + 600000));
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValid(660000);
+            let refreshed = false;
+            jwtService["execBackgroundRefresh"] = async () => refreshed = true;
+            jwtService.startRefreshScheduler(clock);
+            clock.tick(50000);
+            expect(refreshed).to.be.eq(false);
+            clock.tick(6000);
+            expect(refreshed).to.be.eq(true);
+            jwtService.stopRefreshScheduler();
+        });
+    });
+
+    describe("User loading", () => {
+        const flush = () => new Promise((resolve) => setImmediate(resolve));
+        const mockUser = { Id: 5, Name: "Mock", Domain: "BuiltIn", LoginName: "Mock", Path: "/Root/IMS/BuiltIn/Portal/Mock" };
+        let requestUrls: string[];
+        let events: IAuthenticationEvent[];
+
+        const authenticate = (claims: object = {}) => {
+            jwtService["tokenStore"].AccessToken = MockTokenFactory.CreateValidWithClaims(claims);
+            jwtService.state.setValue(LoginState.Authenticated);
+        };
+
+        beforeEach(async () => {
+            await jwtService.checkForUpdate();
+            requestUrls = [];
+            events = [];
+            jwtService.events.subscribe((event) => events.push(event));
+            repo["fetchMethod"] = async (info: RequestInfo) => {
+                requestUrls.push(info.toString());
+                return { ok: true, json: async () => ({ d: { results: [mockUser] } }) } as any;
+            };
+        });
+
+        it("should load the user by Domain and LoginName", async () => {
+            authenticate();
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Loading);
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.deep.eq(mockUser);
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Loaded);
+            expect(requestUrls.length).to.be.eq(1);
+            expect(decodeURIComponent(requestUrls[0])).to.contain("LoginName:'Mock'");
+        });
+
+        it("should load the user by the subject id if enabled", async () => {
+            jwtService.loadUserBySubject = true;
+            repo["fetchMethod"] = async (info: RequestInfo) => {
+                requestUrls.push(info.toString());
+                return { ok: true, json: async () => ({ d: mockUser }) } as any;
+            };
+            authenticate({ sub: "5" });
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.deep.eq(mockUser);
+            expect(requestUrls.length).to.be.eq(1);
+            expect(requestUrls[0]).to.contain("content(5)");
+        });
+
+        it("should set the Visitor and emit userLoadFailed if the user has not been found", async () => {
+            repo["fetchMethod"] = async () => ({ ok: true, json: async () => ({ d: { results: [] } }) } as any);
+            authenticate();
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.eq(ConstantContent.VISITOR_USER);
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Error);
+            expect(events.length).to.be.eq(1);
+            expect(events[0].type).to.be.eq("userLoadFailed");
+            expect(events[0].error.message).to.be.eq("The user 'BuiltIn\\Mock' has not been found");
+        });
+
+        it("should set the Error state on OData errors", async () => {
+            repo["fetchMethod"] = async () => ({ ok: false, status: 500, statusText: "Server error", text: async () => "", json: async () => ({}) } as any);
+            authenticate();
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.eq(ConstantContent.VISITOR_USER);
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Error);
+            expect(events.map((event) => event.type)).to.be.deep.eq(["userLoadFailed"]);
+        });
+
+        it("should drop the result of a stale load", async () => {
+            let resolveLoad: () => void = () => undefined;
+            repo["fetchMethod"] = async () => {
+                await new Promise((resolve) => resolveLoad = resolve);
+                return { ok: true, json: async () => ({ d: { results: [mockUser] } }) } as any;
+            };
+            authenticate();
+            await flush();
+            jwtService.state.setValue(LoginState.Unauthenticated);
+            resolveLoad();
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.eq(ConstantContent.VISITOR_USER);
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Loaded);
+        });
+
+        it("should use the cached user for the same subject", async () => {
+            authenticate({ sub: "5" });
+            await flush();
+            jwtService.state.setValue(LoginState.Unauthenticated);
+            authenticate({ sub: "5" });
+            await flush();
+            expect(jwtService.currentUser.getValue()).to.be.deep.eq(mockUser);
+            expect(requestUrls.length).to.be.eq(1);
+        });
+
+        it("should reload the user on reloadUser()", async () => {
+            authenticate();
+            await flush();
+            await jwtService.reloadUser();
+            expect(requestUrls.length).to.be.eq(2);
+            expect(jwtService.userLoadState.getValue()).to.be.eq(UserLoadState.Loaded);
+        });
+    });
+
+    describe("#logout()", () => {
+        it("should invalidate the tokens", async () => {
+            repo["fetchMethod"] = async () => ({ ok: true, status: 200 });
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            const success = await jwtService.logout();
+            expect(success).to.be.eq(true);
+            expect(jwtService["tokenStore"].AccessToken.IsValid()).to.be.eq(false);
+            expect(jwtService["tokenStore"].RefreshToken.IsValid()).to.be.eq(false);
+
+        });
+
+        it("should invalidate the tokens and resolve with false if the server-side logout fails", async () => {
+            repo["fetchMethod"] = async () => ({ ok: false, status: 500 });
+            jwtService.handleAuthenticationResponse({
+                access: MockTokenFactory.CreateValid().toString(),
+                refresh: MockTokenFactory.CreateValid().toString(),
+            });
+            expect(await jwtService.logout()).to.be.eq(false);
+            expect(jwtService["tokenStore"].AccessToken.IsValid()).to.be.eq(false);
+            repo["fetchMethod"] = async () => {
+                throw Error("Network error");
+            };
+            expect(await jwtService.logout()).to.be.eq(false);
+        });
+    });
+
+    describe("Session management", () => {
+        const requests: Array<{ url: string, init: RequestInit }> = [];
+        const mockResponse = (status: number, body: any = {}) => async (info: RequestInfo, init: RequestInit) => {
+            requests.push({ url: info.toString(), init });
+            return {
+                ok: status < 400,
+                status,
+                statusText: "Status text",
+                json: async () => body,
+            };
+        };
+        const access = MockTokenFactory.CreateValid();
+        const refresh = MockTokenFactory.CreateValid();
+
+        beforeEach(() => {
+            requests.splice(0);
+            jwtService.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Mock" } as any);
+            jwtService.handleAuthenticationResponse({ access: access.toString(), refresh: refresh.toString() });
+        });
+
+        describe("#revokeRefreshToken()", () => {
+            it("should revoke the refresh token and remove it locally", async () => {
+                repo["fetchMethod"] = mockResponse(200);
+                const result = await jwtService.revokeRefreshToken();
+                expect(result).to.be.deep.eq({ success: true, status: 200 });
+                expect(requests[0].url).to.match(/sn-token\/revoke$/);
+                expect((requests[0].init.headers as any)["X-Refresh-Data"]).to.be.eq(refresh.toString());
+                expect(jwtService["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+                expect(jwtService["tokenStore"].AccessToken.toString()).to.be.eq(access.toString());
+                expect(jwtService["canRefresh"]()).to.be.eq(false);
+            });
+
+            it("should keep the refresh token if the revocation fails", async () => {
+                repo["fetchMethod"] = mockResponse(500, { error: { message: { value: "Server error" } } });
+                const result = await jwtService.revokeRefreshToken();
+                expect(result).to.be.deep.eq({ success: false, status: 500, message: "Server error" });
+                expect(jwtService["tokenStore"].RefreshToken.toString()).to.be.eq(refresh.toString());
+            });
+
+            it("should resolve with the error on network errors", async () => {
+                const error = Error("Network error");
+                repo["fetchMethod"] = async () => {
+                    throw error;
+                };
+                expect(await jwtService.revokeRefreshToken()).to.be.deep.eq({ success: false, error });
+            });
+
+            it("should throw if there is no refresh token", async () => {
+                jwtService["tokenStore"].RefreshToken = Token.CreateEmpty();
+                try {
+                    await jwtService.revokeRefreshToken();
+                    throw Error("Should have failed");
+                } catch (error) {
+                    expect(error.message).to.be.eq("There is no refresh token to revoke");
+                }
+            });
+        });
+
+        describe("#getActiveSessions()", () => {
+            it("should list the sessions with the access token", async () => {
+                const sessions = [{ id: "1", device: "Laptop", current: true }, { id: "2", device: "Phone" }];
+                repo["fetchMethod"] = mockResponse(200, { sessions });
+                const result = await jwtService.getActiveSessions();
+                expect(result).to.be.deep.eq({ success: true, status: 200, sessions });
+                expect(requests[0].url).to.match(/sn-token\/sessions$/);
+                expect(requests[0].init.method).to.be.eq("GET");
+                expect((requests[0].init.headers as any)["X-Access-Data"]).to.be.eq(access.toString());
+            });
+
+            it("should resolve with an empty list on non-ok responses", async () => {
+                repo["fetchMethod"] = mockResponse(403);
+                expect(await jwtService.getActiveSessions()).to.be.deep.eq({ success: false, status: 403, message: "Status text", sessions: [] });
+            });
+
+            it("should resolve with the error if the response is not valid", async () => {
+                const error = Error("Unexpected token");
+                repo["fetchMethod"] = async () => ({ ok: true, status: 200, json: async () => { throw error; } });
+                expect(await jwtService.getActiveSessions()).to.be.deep.eq({ success: false, status: 200, sessions: [], error });
+            });
+
+            it("should resolve with the error on network errors", async () => {
+                const error = Error("Network error");
+                repo["fetchMethod"] = async () => {
+                    throw error;
+                };
+                expect(await jwtService.getActiveSessions()).to.be.deep.eq({ success: false, sessions: [], error });
+            });
+        });
+
+        describe("#revokeSession()", () => {
+            it("should revoke the specified session", async () => {
+                repo["fetchMethod"] = mockResponse(204);
+                expect(await jwtService.revokeSession("a/b")).to.be.deep.eq({ success: true, status: 204 });
+                expect(requests[0].url).to.match(/sn-token\/sessions\/a%2Fb$/);
+                expect(requests[0].init.method).to.be.eq("DELETE");
+            });
+
+            it("should resolve with the failure", async () => {
+                repo["fetchMethod"] = mockResponse(404, { error: { message: { value: "Session not found" } } });
+                expect(await jwtService.revokeSession("3")).to.be.deep.eq({ success: false, status: 404, message: "Session not found" });
+                const error = Error("Network error");
+                repo["fetchMethod"] = async () => {
+                    throw error;
+                };
+                expect(await jwtService.revokeSession("3")).to.be.deep.eq({ success: false, error });
+            });
+        });
+
+        describe("#logoutEverywhere()", () => {
+            it("should revoke all sessions and log out", async () => {
+                repo["fetchMethod"] = mockResponse(200);
+                expect(await jwtService.logoutEverywhere()).to.be.deep.eq({ success: true, status: 200 });
+                expect(requests.map((r) => r.url.split("/").pop())).to.be.deep.eq(["logout-all", "logout"]);
+                expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+                expect(jwtService["tokenStore"].AccessToken.IsEmpty).to.be.eq(true);
+            });
+
+            it("should keep the local session if the revocation fails", async () => {
+                repo["fetchMethod"] = mockResponse(500);
+                expect(await jwtService.logoutEverywhere()).to.be.deep.eq({ success: false, status: 500, message: "Status text" });
+                expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+                const error = Error("Network error");
+                repo["fetchMethod"] = async () => {
+                    throw error;
+                };
+                expect(await jwtService.logoutEverywhere()).to.be.deep.eq({ success: false, error });
+                expect(jwtService["tokenStore"].AccessToken.toString()).to.be.eq(access.toString());
+            });
         });
     });
 });
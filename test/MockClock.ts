@@ -0,0 +1,39 @@
+import { IClock } from "../src/IClock";
+
+// tslint:disable:completed-docs
+
+export class MockClock implements IClock {
+    private lastHandle = 0;
+    private timers: Map<number, { due: number, callback: () => void }> = new Map();
+
+    constructor(private currentTime: number = new Date().getTime()) {
+    }
+
+    public get pendingTimers(): number {
+        return this.timers.size;
+    }
+
+    public now(): Date {
+        return new Date(this.currentTime);
+    }
+
+    public setTimeout(callback: () => void, ms: number): any {
+        this.lastHandle++;
+        this.timers.set(this.lastHandle, { due: this.currentTime + ms, callback });
+        return this.lastHandle;
+    }
+
+    public clearTimeout(handle: any): void {
+        this.timers.delete(handle);
+    }
+
+    public tick(ms: number) {
+        this.currentTime += ms;
+        for (const [handle, timer] of Array.from(this.timers.entries())) {
+            if (timer.due <= this.currentTime) {
+                this.timers.delete(handle);
+                timer.callback();
+            }
+        }
+    }
+}
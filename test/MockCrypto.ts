@@ -0,0 +1,25 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomFillSync } from "crypto";
+
+// tslint:disable:completed-docs
+
+/**
+ * AES-GCM subset of the WebCrypto API, implemented with the Node.js 'crypto' module
+ */
+export const mockCrypto: any = {
+    getRandomValues: (array: Uint8Array) => randomFillSync(array),
+    subtle: {
+        generateKey: async (algorithm: any, extractable: boolean, usages: string[]) => ({ raw: randomBytes(32), extractable, usages }),
+        encrypt: async (params: any, key: any, data: Uint8Array) => {
+            const cipher = createCipheriv("aes-256-gcm", key.raw, Buffer.from(params.iv));
+            cipher.setAAD(Buffer.from(params.additionalData));
+            return Buffer.concat([cipher.update(Buffer.from(data)), cipher.final(), cipher.getAuthTag()]);
+        },
+        decrypt: async (params: any, key: any, data: Uint8Array) => {
+            const buffer = Buffer.from(data);
+            const decipher = createDecipheriv("aes-256-gcm", key.raw, Buffer.from(params.iv));
+            decipher.setAAD(Buffer.from(params.additionalData));
+            decipher.setAuthTag(buffer.slice(buffer.length - 16));
+            return Buffer.concat([decipher.update(buffer.slice(0, buffer.length - 16)), decipher.final()]);
+        },
+    },
+};
@@ -0,0 +1,55 @@
+// tslint:disable:completed-docs
+
+const createRequest = (action: () => any, upgrade?: () => void) => {
+    const request: any = {};
+    setTimeout(() => {
+        try {
+            upgrade && request.onupgradeneeded && request.onupgradeneeded();
+            request.result = action();
+            request.onsuccess && request.onsuccess();
+        } catch (err) {
+            request.error = err;
+            request.onerror && request.onerror();
+        }
+    });
+    return request;
+};
+
+/**
+ * In-memory IndexedDB replacement that supports the operations that are used by the IndexedDbKeyProvider
+ */
+export class MockIndexedDb {
+    public databases: Map<string, Map<string, Map<any, any>>> = new Map();
+
+    public openCount = 0;
+
+    public closeCount = 0;
+
+    public open(name: string) {
+        this.openCount++;
+        const isNew = !this.databases.has(name);
+        const stores = this.databases.get(name) || new Map<string, Map<any, any>>();
+        this.databases.set(name, stores);
+        const db = {
+            createObjectStore: (storeName: string) => stores.set(storeName, new Map()),
+            close: () => this.closeCount++,
+            transaction: (storeName: string) => ({
+                objectStore: () => {
+                    const store = stores.get(storeName) as Map<any, any>;
+                    return {
+                        get: (key: any) => createRequest(() => store.get(key)),
+                        add: (value: any, key: any) => createRequest(() => {
+                            if (store.has(key)) {
+                                throw new Error("ConstraintError");
+                            }
+                            store.set(key, value);
+                        }),
+                    };
+                },
+            }),
+        };
+        const request = createRequest(() => db, isNew ? () => undefined : undefined);
+        request.result = db;
+        return request;
+    }
+}
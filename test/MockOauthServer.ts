@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import { createServer, IncomingMessage, request, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { parse } from "url";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+
+const base64Url = (data: Buffer) => data.toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+
+/**
+ * A local identity provider + sensenet 'sn-oauth/login' endpoint for testing the authorization code + PKCE flow
+ */
+export class MockOauthServer {
+    private server: Server = createServer((req, res) => this.handleRequest(req, res));
+    private codes: Map<string, { challenge: string, nonce: string, redirectUri: string }> = new Map();
+    private lastCode = 0;
+
+    public url = "";
+    public exchangeRequests: any[] = [];
+    public tokenNonce?: string;
+    public responseBody?: string;
+
+    public async start() {
+        await new Promise((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+        this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    public async stop() {
+        await new Promise((resolve) => this.server.close(resolve));
+    }
+
+    /**
+     * A minimal fetch implementation for Node.js that doesn't follow redirects
+     */
+    public fetch = (info: RequestInfo, init: RequestInit = {}) => new Promise<any>((resolve, reject) => {
+        const req = request(info.toString(), { method: init.method || "GET", headers: init.headers as any }, (res) => {
+            let body = "";
+            res.on("data", (chunk) => body += chunk);
+            res.on("end", () => resolve({
+                ok: res.statusCode as number >= 200 && res.statusCode as number < 300,
+                status: res.statusCode,
+                headers: { get: (name: string) => res.headers[name.toLowerCase()] },
+                json: async () => JSON.parse(body),
+            }));
+        });
+        req.on("error", reject);
+        req.end(init.body);
+    })
+
+    private handleRequest(req: IncomingMessage, res: ServerResponse) {
+        const url = parse(req.url as string, true);
+        if (url.pathname === "/authorize") {
+            const query = url.query as { [key: string]: string };
+            if (query.response_type !== "code" || query.code_challenge_method !== "S256") {
+                res.writeHead(400);
+                res.end();
+                return;
+            }
+            const code = `code-${++this.lastCode}`;
+            this.codes.set(code, { challenge: query.code_challenge, nonce: query.nonce, redirectUri: query.redirect_uri });
+            res.writeHead(302, { Location: `${query.redirect_uri}?code=${code}&state=${encodeURIComponent(query.state)}` });
+            res.end();
+        } else if (url.pathname === "/sn-oauth/login" && req.method === "POST") {
+            let body = "";
+            req.on("data", (chunk) => body += chunk);
+            req.on("end", () => {
+                const exchange = JSON.parse(body);
+                this.exchangeRequests.push({ provider: url.query.provider, ...exchange });
+                const pending = this.codes.get(exchange.code);
+                this.codes.delete(exchange.code);
+                if (!pending || pending.redirectUri !== exchange.redirect_uri
+                    || pending.challenge !== base64Url(createHash("sha256").update(exchange.code_verifier).digest())) {
+                    res.writeHead(403, { "Content-Type": "application/json" });
+                    res.end(JSON.stringify({ error: { code: "Forbidden", message: { lang: "en-us", value: "Invalid grant" } } }));
+                    return;
+                }
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(this.responseBody !== undefined ? this.responseBody : JSON.stringify({
+                    access: MockTokenFactory.CreateValidWithClaims({ nonce: this.tokenNonce || pending.nonce } as any).toString(),
+                    refresh: MockTokenFactory.CreateValid().toString(),
+                }));
+            });
+        } else {
+            res.writeHead(404);
+            res.end();
+        }
+    }
+}
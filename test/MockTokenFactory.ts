@@ -9,7 +9,7 @@ export class MockTokenFactory {
         return date.getTime() / 1000;
     }
 
-    private static createWithDates(expiration: number, notBefore: number): Token {
+    private static createWithDates(expiration: number, notBefore: number, claims: Partial<ITokenPayload> = {}): Token {
         const header = {};
         const payload = {
             aud: "",
@@ -19,6 +19,7 @@ export class MockTokenFactory {
             name: "BuiltIn\\Mock",
             nbf: notBefore,
             sub: "",
+            ...claims,
         } as ITokenPayload;
 
         const headerEncoded = Buffer.from(JSON.stringify(header)).toString("base64");
@@ -27,8 +28,12 @@ export class MockTokenFactory {
         return Token.FromHeadAndPayload(`${headerEncoded}.${payloadEncoded}`);
     }
 
-    public static CreateValid() {
-        return this.createWithDates(this.getStillValidDate(), 1);
+    public static CreateValid(expiresIn?: number) {
+        return this.createWithDates(this.getStillValidDate(expiresIn), 1);
+    }
+
+    public static CreateValidWithClaims(claims: Partial<ITokenPayload>) {
+        return this.createWithDates(this.getStillValidDate(), 1, claims);
     }
 
     public static CreateExpired() {
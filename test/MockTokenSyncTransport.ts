@@ -0,0 +1,46 @@
+import { IDisposable } from "@sensenet/client-utils";
+import { ITokenSyncMessage } from "../src/ITokenSyncMessage";
+import { ITokenSyncTransport } from "../src/ITokenSyncTransport";
+
+// tslint:disable:completed-docs
+
+/**
+ * In-memory transport, delivers the messages to the other transports that have been created with the same bus
+ */
+export class MockTokenSyncTransport implements ITokenSyncTransport {
+    private callbacks: Set<(message: ITokenSyncMessage) => void> = new Set();
+
+    public sentMessages: ITokenSyncMessage[] = [];
+
+    constructor(private readonly bus: Set<MockTokenSyncTransport> = new Set()) {
+        this.bus.add(this);
+    }
+
+    public send(message: ITokenSyncMessage): void {
+        this.sentMessages.push(message);
+        for (const transport of this.bus) {
+            if (transport !== this) {
+                transport.receive(message);
+            }
+        }
+    }
+
+    public receive(message: ITokenSyncMessage) {
+        for (const callback of this.callbacks) {
+            callback(message);
+        }
+    }
+
+    public subscribe(callback: (message: ITokenSyncMessage) => void): IDisposable {
+        this.callbacks.add(callback);
+        return {
+            dispose: () => {
+                this.callbacks.delete(callback);
+            },
+        };
+    }
+
+    public dispose() {
+        this.bus.delete(this);
+    }
+}
@@ -0,0 +1,190 @@
+import { LoginState, Repository } from "@sensenet/client-core";
+import { expect } from "chai";
+import { createHash, randomFillSync } from "crypto";
+import { JwtService } from "../src/JwtService";
+import { OauthError } from "../src/OauthError";
+import { PkceOauthProvider } from "../src/PkceOauthProvider";
+import { MockOauthServer } from "./MockOauthServer";
+import { MockStorage } from "./MockStorage";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+
+const nodeCrypto: any = {
+    getRandomValues: (array: Uint8Array) => randomFillSync(array),
+    subtle: {
+        digest: async (algorithm: string, data: Uint8Array) => createHash("sha256").update(Buffer.from(data as any)).digest(),
+    },
+};
+
+export const pkceOauthProviderTests: Mocha.Suite = describe("PkceOauthProvider", () => {
+    const server = new MockOauthServer();
+    let jwtService: JwtService;
+    let storage: MockStorage;
+    let provider: PkceOauthProvider;
+
+    before(async () => {
+        await server.start();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    beforeEach(() => {
+        const repo = new Repository({ repositoryUrl: server.url }, server.fetch);
+        jwtService = new JwtService(repo);
+        jwtService.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Mock" } as any);
+        storage = new MockStorage();
+        server.exchangeRequests = [];
+        server.tokenNonce = undefined;
+        server.responseBody = undefined;
+        provider = new PkceOauthProvider(jwtService, {
+            providerName: "mock",
+            authorizationEndpoint: `${server.url}/authorize`,
+            clientId: "client",
+            redirectUri: "http://localhost/callback",
+            storage,
+            crypto: nodeCrypto,
+            location: { href: "http://localhost/", assign: () => undefined },
+        });
+    });
+
+    afterEach(() => {
+        jwtService.dispose();
+    });
+
+    const authorize = async () => {
+        const response = await server.fetch(await provider.createAuthorizationUrl());
+        return response.headers.get("Location") as string;
+    };
+
+    it("should create an authorization URL with the PKCE parameters", async () => {
+        const url = new URL(await provider.createAuthorizationUrl());
+        expect(url.searchParams.get("response_type")).to.be.eq("code");
+        expect(url.searchParams.get("client_id")).to.be.eq("client");
+        expect(url.searchParams.get("redirect_uri")).to.be.eq("http://localhost/callback");
+        expect(url.searchParams.get("scope")).to.be.eq("openid profile email");
+        expect(url.searchParams.get("code_challenge_method")).to.be.eq("S256");
+        const pending = JSON.parse(storage.getItem("sn-oauth-pkce-mock") as string);
+        expect(pending.codeVerifier).to.match(/^[A-Za-z0-9\-_]{43}$/);
+        expect(url.searchParams.get("state")).to.be.eq(pending.state);
+        expect(url.searchParams.get("nonce")).to.be.eq(pending.nonce);
+        expect(url.searchParams.get("code_challenge")).to.be.eq(createHash("sha256").update(pending.codeVerifier).digest("base64")
+            .replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_"));
+    });
+
+    it("should redirect to the authorization URL", async () => {
+        let redirectUrl = "";
+        provider = new PkceOauthProvider(jwtService, {
+            providerName: "mock",
+            authorizationEndpoint: `${server.url}/authorize`,
+            clientId: "client",
+            redirectUri: "http://localhost/callback",
+            storage,
+            crypto: nodeCrypto,
+            location: { href: "http://localhost/", assign: (url: string) => redirectUrl = url },
+        });
+        await provider.redirect();
+        expect(redirectUrl.indexOf(`${server.url}/authorize?`)).to.be.eq(0);
+    });
+
+    it("should exchange the code and log in", async () => {
+        const callbackUrl = await authorize();
+        const success = await provider.handleCallback(callbackUrl);
+        expect(success).to.be.eq(true);
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+        expect(server.exchangeRequests.length).to.be.eq(1);
+        expect(server.exchangeRequests[0].provider).to.be.eq("mock");
+        expect(storage.getItem("sn-oauth-pkce-mock")).to.be.eq(null);
+    });
+
+    it("should log in with loginWith() on the callback page", async () => {
+        const callbackUrl = await authorize();
+        jwtService.registerProvider("mock", new PkceOauthProvider(jwtService, {
+            providerName: "mock",
+            authorizationEndpoint: `${server.url}/authorize`,
+            clientId: "client",
+            redirectUri: "http://localhost/callback",
+            storage,
+            crypto: nodeCrypto,
+            location: { href: callbackUrl, assign: () => undefined },
+        }));
+        expect(await jwtService.loginWith("mock")).to.be.eq(true);
+        expect(jwtService.sessionProviderName).to.be.eq("mock");
+    });
+
+    it("should throw on state mismatch", async () => {
+        const callbackUrl = await authorize();
+        const error = await provider.getToken(callbackUrl.replace(/state=[^&]*/, "state=forged")).catch((e) => e);
+        expect(error).to.be.instanceof(OauthError);
+        expect(error.code).to.be.eq("invalid_state");
+    });
+
+    it("should throw if there is no pending authorization request", async () => {
+        const error = await provider.handleCallback("http://localhost/callback?code=code-1&state=state").catch((e) => e);
+        expect(error).to.be.instanceof(OauthError);
+        expect(error.code).to.be.eq("invalid_state");
+    });
+
+    it("should throw on error responses from the identity provider", async () => {
+        await authorize();
+        const error = await provider.getToken("http://localhost/callback?error=access_denied&error_description=Denied").catch((e) => e);
+        expect(error).to.be.instanceof(OauthError);
+        expect(error.code).to.be.eq("access_denied");
+        expect(error.message).to.be.eq("Denied");
+        expect(storage.getItem("sn-oauth-pkce-mock")).to.be.eq(null);
+    });
+
+    it("should throw if there is no code in the callback URL", async () => {
+        const callbackUrl = await authorize();
+        const error = await provider.getToken(callbackUrl.replace(/code=[^&]*&/, "")).catch((e) => e);
+        expect(error.code).to.be.eq("invalid_request");
+    });
+
+    it("should throw on nonce mismatch", async () => {
+        server.tokenNonce = "forged";
+        const error = await provider.handleCallback(await authorize()).catch((e) => e);
+        expect(error).to.be.instanceof(OauthError);
+        expect(error.code).to.be.eq("invalid_nonce");
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+    });
+
+    it("should throw if the token doesn't contain the nonce", async () => {
+        server.responseBody = JSON.stringify({ access: MockTokenFactory.CreateValid().toString() });
+        const error = await provider.handleCallback(await authorize()).catch((e) => e);
+        expect(error).to.be.instanceof(OauthError);
+        expect(error.code).to.be.eq("invalid_nonce");
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+    });
+
+    it("should accept a token without nonce if it is allowed", async () => {
+        server.responseBody = JSON.stringify({ access: MockTokenFactory.CreateValid().toString() });
+        provider = new PkceOauthProvider(jwtService, {
+            providerName: "mock",
+            authorizationEndpoint: `${server.url}/authorize`,
+            clientId: "client",
+            redirectUri: "http://localhost/callback",
+            storage,
+            crypto: nodeCrypto,
+            allowMissingNonce: true,
+        });
+        expect(await provider.handleCallback(await authorize())).to.be.eq(true);
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Authenticated);
+    });
+
+    it("should return false if the response doesn't contain valid tokens", async () => {
+        server.responseBody = "<html>Service unavailable</html>";
+        expect(await provider.handleCallback(await authorize())).to.be.eq(false);
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+    });
+
+    it("should return false if the code exchange fails", async () => {
+        const callbackUrl = await authorize();
+        const pending = storage.getItem("sn-oauth-pkce-mock") as string;
+        storage.setItem("sn-oauth-pkce-mock", JSON.stringify({ ...JSON.parse(pending), codeVerifier: "wrong-verifier" }));
+        const success = await provider.handleCallback(callbackUrl);
+        expect(success).to.be.eq(false);
+        expect(jwtService.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+    });
+});
@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { RefreshScheduler } from "../src/RefreshScheduler";
+import { MockClock } from "./MockClock";
+
+// tslint:disable:completed-docs
+
+export const refreshSchedulerTests: Mocha.Suite = describe("RefreshScheduler", () => {
+    let clock: MockClock;
+    let expiration: Date;
+    let refreshCount: number;
+    let scheduler: RefreshScheduler;
+
+    beforeEach(() => {
+        clock = new MockClock();
+        expiration = new Date(clock.now().getTime() + 60000);
+        refreshCount = 0;
+        scheduler = new RefreshScheduler(() => expiration, async () => {
+            refreshCount++;
+            return true;
+        }, 5000, clock);
+    });
+
+    afterEach(() => {
+        scheduler.dispose();
+    });
+
+    it("should refresh before the expiration, compensated with the lead time", () => {
+        scheduler.schedule();
+        expect(scheduler.isScheduled).to.be.eq(true);
+        clock.tick(54999);
+        expect(refreshCount).to.be.eq(0);
+        clock.tick(1);
+        expect(refreshCount).to.be.eq(1);
+        expect(scheduler.isScheduled).to.be.eq(false);
+    });
+
+    it("should not schedule expired tokens", () => {
+        expiration = new Date(clock.now().getTime() - 1);
+        scheduler.schedule();
+        expect(scheduler.isScheduled).to.be.eq(false);
+    });
+
+    it("should refresh immediately if the token expires within the lead time", () => {
+        expiration = new Date(clock.now().getTime() + 1000);
+        scheduler.schedule();
+        clock.tick(0);
+        expect(refreshCount).to.be.eq(1);
+    });
+
+    it("should replace the previous schedule on reschedule", () => {
+        scheduler.schedule();
+        expiration = new Date(clock.now().getTime() + 120000);
+        scheduler.schedule();
+        expect(clock.pendingTimers).to.be.eq(1);
+        clock.tick(60000);
+        expect(refreshCount).to.be.eq(0);
+    });
+
+    it("should cancel the refresh on stop", () => {
+        scheduler.schedule();
+        scheduler.stop();
+        expect(clock.pendingTimers).to.be.eq(0);
+        clock.tick(60000);
+        expect(refreshCount).to.be.eq(0);
+    });
+
+    it("should swallow refresh errors", async () => {
+        scheduler = new RefreshScheduler(() => expiration, async () => {
+            throw Error("Refresh failed");
+        }, 5000, clock);
+        scheduler.schedule();
+        clock.tick(60000);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        expect(scheduler.isScheduled).to.be.eq(false);
+    });
+});
@@ -0,0 +1,140 @@
+import { LoginState, Repository } from "@sensenet/client-core";
+import { expect } from "chai";
+import { ConnectionState } from "../src/ConnectionState";
+import { CookieJar } from "../src/CookieJar";
+import { ILoginResponse } from "../src/ILoginResponse";
+import { IRefreshResponse } from "../src/IRefreshResponse";
+import { ServerSession } from "../src/ServerSession";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+
+export const serverSessionTests: Mocha.Suite = describe("ServerSession", () => {
+    const repositoryUrl = "https://my-repo";
+    const cookieName = (tokenName: string) => encodeURIComponent(`sn-${repositoryUrl}-${tokenName}`);
+    const cookieHeader = (access: string, refresh: string) =>
+        `other=1; ${cookieName("access")}=${encodeURIComponent(access)}; ${cookieName("refresh")}=${encodeURIComponent(refresh)}`;
+    const sessions: ServerSession[] = [];
+    const createSession = (fetchMethod: (info: RequestInfo, init: RequestInit) => Promise<any>, cookie?: string) => {
+        const session = new ServerSession(new Repository({ repositoryUrl }, fetchMethod as any), cookie);
+        session.service.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Mock" } as any);
+        sessions.push(session);
+        return session;
+    };
+
+    afterEach(() => {
+        sessions.splice(0).forEach((session) => session.dispose());
+    });
+
+    describe("CookieJar", () => {
+        it("should parse the cookie headers", () => {
+            const jar = new CookieJar(["a=1; b=%3D2", "c=3"]);
+            expect(jar.get("a")).to.be.eq("1");
+            expect(jar.get("b")).to.be.eq("=2");
+            expect(jar.get("c")).to.be.eq("3");
+            expect(jar.get("d")).to.be.eq(undefined);
+            expect(jar.getSetCookieHeaders()).to.be.deep.eq([]);
+        });
+
+        it("should collect the changes as Set-Cookie headers", () => {
+            const jar = new CookieJar("a=1");
+            const expires = new Date(Date.UTC(2030, 0, 1));
+            jar.set("b", "value=", expires);
+            jar.set("c", "session");
+            jar.remove("a");
+            expect(jar.get("a")).to.be.eq(undefined);
+            expect(jar.get("b")).to.be.eq("value=");
+            expect(jar.getSetCookieHeaders()).to.be.deep.eq([
+                "b=value%3D; Path=/; Expires=Tue, 01 Jan 2030 00:00:00 GMT; HttpOnly",
+                "c=session; Path=/; HttpOnly",
+                "a=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly",
+            ]);
+        });
+    });
+
+    it("should read the tokens from the incoming cookies", async () => {
+        const access = MockTokenFactory.CreateValid().toString();
+        const session = createSession(async () => ({ ok: true }), cookieHeader(access, MockTokenFactory.CreateValid().toString()));
+        expect(await session.initialize()).to.be.eq(LoginState.Authenticated);
+        expect(session.service.getAccessToken().toString()).to.be.eq(access);
+        expect(await session.getSetCookieHeaders()).to.be.deep.eq([]);
+    });
+
+    it("should be unauthenticated without cookies", async () => {
+        const session = createSession(async () => ({ ok: true }));
+        expect(await session.initialize()).to.be.eq(LoginState.Unauthenticated);
+    });
+
+    it("should write the tokens to Set-Cookie headers on login", async () => {
+        const tokens: ILoginResponse = {
+            access: MockTokenFactory.CreateValid().toString(),
+            refresh: MockTokenFactory.CreateValid().toString(),
+        };
+        const session = createSession(async () => ({ ok: true, json: async () => tokens }));
+        await session.initialize();
+        await session.service.login("user", "pass");
+        expect(await session.getSetCookieHeaders()).to.be.deep.eq([
+            `${cookieName("access")}=${encodeURIComponent(tokens.access)}; Path=/; HttpOnly`,
+            `${cookieName("refresh")}=${encodeURIComponent(tokens.refresh)}; Path=/; HttpOnly`,
+        ]);
+    });
+
+    it("should set the cookie expiration if the session lifetime is 'expiration'", async () => {
+        const session = new ServerSession(new Repository({ repositoryUrl, sessionLifetime: "expiration" }, (async () => ({ ok: true })) as any));
+        sessions.push(session);
+        const token = MockTokenFactory.CreateValid();
+        session.service.handleAuthenticationResponse({ access: token.toString(), refresh: token.toString() });
+        const headers = await session.getSetCookieHeaders();
+        expect(headers[0]).to.be.eq(`${cookieName("access")}=${encodeURIComponent(token.toString())}; Path=/; Expires=${token.ExpirationTime.toUTCString()}; HttpOnly`);
+    });
+
+    it("should expire the cookies on logout", async () => {
+        const session = createSession(async () => ({ ok: true }),
+            cookieHeader(MockTokenFactory.CreateValid().toString(), MockTokenFactory.CreateValid().toString()));
+        await session.initialize();
+        await session.service.logout();
+        const headers = await session.getSetCookieHeaders();
+        expect(headers).to.be.deep.eq([
+            `${cookieName("access")}=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly`,
+            `${cookieName("refresh")}=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly`,
+        ]);
+    });
+
+    it("should not leak the tokens between concurrent requests", async () => {
+        const refreshedTokens = new Map<string, string>();
+        const fetchMethod = async (info: RequestInfo, init: RequestInit) => {
+            const refreshToken = (init.headers as any)["X-Refresh-Data"];
+            await new Promise((resolve) => setTimeout(resolve, refreshedTokens.size === 0 ? 10 : 1));
+            const access = MockTokenFactory.CreateValidWithClaims({ sub: refreshToken }).toString();
+            refreshedTokens.set(refreshToken, access);
+            return { ok: true, json: async () => ({ access } as IRefreshResponse) };
+        };
+        const refresh1 = MockTokenFactory.CreateValidWithClaims({ sub: "user1" }).toString();
+        const refresh2 = MockTokenFactory.CreateValidWithClaims({ sub: "user2" }).toString();
+        const session1 = createSession(fetchMethod, cookieHeader(MockTokenFactory.CreateExpired().toString(), refresh1));
+        const session2 = createSession(fetchMethod, cookieHeader(MockTokenFactory.CreateExpired().toString(), refresh2));
+        await Promise.all([session1.initialize(), session2.initialize()]);
+        expect(session1.service.getAccessToken().toString()).to.be.eq(refreshedTokens.get(refresh1));
+        expect(session2.service.getAccessToken().toString()).to.be.eq(refreshedTokens.get(refresh2));
+        expect((await session1.getSetCookieHeaders())[0]).to.contain(encodeURIComponent(refreshedTokens.get(refresh1) as string));
+        expect((await session2.getSetCookieHeaders())[0]).to.contain(encodeURIComponent(refreshedTokens.get(refresh2) as string));
+    });
+
+    it("should resolve with the state if the refresh endpoint throws", async () => {
+        const rejections: any[] = [];
+        const onUnhandledRejection = (reason: any) => rejections.push(reason);
+        process.on("unhandledRejection", onUnhandledRejection);
+        const session = createSession(async () => { throw new Error("ECONNREFUSED"); },
+            cookieHeader(MockTokenFactory.CreateExpired().toString(), MockTokenFactory.CreateValid().toString()));
+        expect(await session.initialize()).to.be.eq(LoginState.Authenticated);
+        expect(session.service.connectionState.getValue()).to.be.eq(ConnectionState.Offline);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        process.removeListener("unhandledRejection", onUnhandledRejection);
+        expect(rejections).to.be.deep.eq([]);
+    });
+
+    it("should not share a repository between the sessions", () => {
+        const session = createSession(async () => ({ ok: true }));
+        expect(() => new ServerSession(session.repository)).to.throw();
+    });
+});
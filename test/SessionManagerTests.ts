@@ -0,0 +1,126 @@
+import { ConstantContent, LoginState, Repository } from "@sensenet/client-core";
+import { expect } from "chai";
+import { InMemoryStorageBackend } from "../src/InMemoryStorageBackend";
+import { JwtService } from "../src/JwtService";
+import { SessionManager } from "../src/SessionManager";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+// tslint:disable:no-string-literal
+
+export const sessionManagerTests: Mocha.Suite = describe("SessionManager", () => {
+    let repo: Repository;
+    let backend: InMemoryStorageBackend;
+    let admin: JwtService;
+    let editor: JwtService;
+    let manager: SessionManager;
+    let logoutCount: number;
+
+    const createSession = (name: string, loginName: string) => {
+        const service = new JwtService(repo, undefined, undefined, { storageBackend: backend, sessionName: name });
+        service.currentUser.setValue({ Domain: "BuiltIn", LoginName: loginName } as any);
+        return service;
+    };
+
+    beforeEach(() => {
+        logoutCount = 0;
+        repo = new Repository({}, async (info: RequestInfo) => {
+            if (info.toString().indexOf("sn-token/logout") >= 0) {
+                logoutCount++;
+            }
+            return { ok: true } as any;
+        });
+        backend = new InMemoryStorageBackend();
+        admin = createSession("admin", "Admin");
+        editor = createSession("editor", "Editor");
+        manager = new SessionManager();
+        manager.add(admin);
+        manager.add(editor);
+    });
+
+    afterEach(() => {
+        manager.dispose();
+        admin.dispose();
+        editor.dispose();
+    });
+
+    it("should activate the first session", () => {
+        expect(manager.activeSessionName.getValue()).to.be.eq("admin");
+        expect(manager.activeSession).to.be.eq(admin);
+        expect(repo.authentication).to.be.eq(admin);
+        expect(manager.currentUser.getValue().LoginName).to.be.eq("Admin");
+    });
+
+    it("should store the tokens of the sessions separately", async () => {
+        admin["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+        await admin["tokenStore"].flush();
+        expect(await backend.get(`sn-${repo.configuration.repositoryUrl}-admin-access`)).to.be.eq(admin["tokenStore"].AccessToken.toString());
+        expect(await backend.get(`sn-${repo.configuration.repositoryUrl}-editor-access`)).to.be.eq(null);
+        expect(editor["tokenStore"].AccessToken.IsEmpty).to.be.eq(true);
+    });
+
+    it("should list the sessions", () => {
+        admin.state.setValue(LoginState.Authenticated);
+        editor.state.setValue(LoginState.Unauthenticated);
+        editor.currentUser.setValue({ Domain: "BuiltIn", LoginName: "Editor" } as any);
+        const sessions = manager.list();
+        expect(sessions.map((s) => [s.name, s.state, s.user.LoginName, s.isActive])).to.be.deep.eq([
+            ["admin", LoginState.Authenticated, "Admin", true],
+            ["editor", LoginState.Unauthenticated, "Editor", false],
+        ]);
+        expect(sessions[0].repositoryUrl).to.be.eq(repo.configuration.repositoryUrl);
+    });
+
+    it("should switch the active session", async () => {
+        editor["tokenStore"].AccessToken = MockTokenFactory.CreateValid();
+        const isAuthenticated = await manager.switchTo("editor");
+        expect(isAuthenticated).to.be.eq(true);
+        expect(manager.activeSessionName.getValue()).to.be.eq("editor");
+        expect(repo.authentication).to.be.eq(editor);
+        expect(manager.state.getValue()).to.be.eq(LoginState.Authenticated);
+        expect(manager.currentUser.getValue().LoginName).to.be.eq("Editor");
+    });
+
+    it("should follow the state of the active session only", async () => {
+        await manager.switchTo("editor");
+        admin.state.setValue(LoginState.Authenticated);
+        expect(manager.state.getValue()).to.be.eq(LoginState.Unauthenticated);
+        editor.state.setValue(LoginState.Authenticated);
+        expect(manager.state.getValue()).to.be.eq(LoginState.Authenticated);
+    });
+
+    it("should throw on switching to an unknown session", async () => {
+        const error = await manager.switchTo("unknown").catch((e) => e);
+        expect(error.message).to.be.eq("There is no session with the name 'unknown'");
+    });
+
+    it("should throw on adding a session without a name or with a duplicate name", () => {
+        expect(() => manager.add(new JwtService(repo))).to.throw("The service should have a session name");
+        expect(() => manager.add(createSession("admin", "Admin"))).to.throw("There is already a session with the name 'admin'");
+    });
+
+    it("should log out the active session", async () => {
+        admin["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+        editor["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+        expect(await manager.logout()).to.be.eq(true);
+        expect(admin["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+        expect(editor["tokenStore"].RefreshToken.IsEmpty).to.be.eq(false);
+        expect(await manager.logout("unknown")).to.be.eq(false);
+    });
+
+    it("should log out all the sessions", async () => {
+        admin["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+        editor["tokenStore"].RefreshToken = MockTokenFactory.CreateValid();
+        expect(await manager.logoutAll()).to.be.eq(true);
+        expect(logoutCount).to.be.eq(2);
+        expect(admin["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+        expect(editor["tokenStore"].RefreshToken.IsEmpty).to.be.eq(true);
+    });
+
+    it("should remove a session", () => {
+        expect(manager.remove("admin")).to.be.eq(admin);
+        expect(manager.get("admin")).to.be.eq(undefined);
+        expect(manager.activeSessionName.getValue()).to.be.eq(undefined);
+        expect(manager.currentUser.getValue()).to.be.eq(ConstantContent.VISITOR_USER);
+    });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import { SkewCompensatedClock } from "../src/SkewCompensatedClock";
+import { MockClock } from "./MockClock";
+
+// tslint:disable:completed-docs
+
+export const skewCompensatedClockTests: Mocha.Suite = describe("SkewCompensatedClock", () => {
+    let localClock: MockClock;
+    let clock: SkewCompensatedClock;
+
+    beforeEach(() => {
+        localClock = new MockClock();
+        clock = new SkewCompensatedClock(localClock);
+    });
+
+    it("should follow the local time without a skew", () => {
+        expect(clock.skewMs).to.be.eq(0);
+        expect(clock.now().getTime()).to.be.eq(localClock.now().getTime());
+    });
+
+    it("should follow the server time after an adjustment", () => {
+        clock.adjust(new Date(localClock.now().getTime() + 180000));
+        expect(clock.skewMs).to.be.eq(180000);
+        localClock.tick(1000);
+        expect(clock.now().getTime()).to.be.eq(localClock.now().getTime() + 180000);
+    });
+
+    it("should ignore the samples within the precision", () => {
+        clock.adjust(new Date(localClock.now().getTime() - 900));
+        expect(clock.skewMs).to.be.eq(0);
+        clock.adjust(new Date(localClock.now().getTime() - 60000));
+        clock.adjust(new Date(localClock.now().getTime() - 60500));
+        expect(clock.skewMs).to.be.eq(-60000);
+    });
+
+    it("should ignore invalid dates", () => {
+        clock.adjust(new Date("not a date"));
+        expect(clock.skewMs).to.be.eq(0);
+    });
+
+    it("should convert the server time to the local time", () => {
+        clock.adjust(new Date(localClock.now().getTime() + 60000));
+        const serverTime = new Date(localClock.now().getTime() + 120000);
+        expect(clock.toLocalTime(serverTime).getTime()).to.be.eq(localClock.now().getTime() + 60000);
+    });
+
+    it("should drop the skew on reset", () => {
+        clock.adjust(new Date(localClock.now().getTime() + 60000));
+        clock.reset();
+        expect(clock.skewMs).to.be.eq(0);
+    });
+
+    it("should use the timers of the local clock", () => {
+        let fired = 0;
+        const handle = clock.setTimeout(() => fired++, 1000);
+        clock.setTimeout(() => fired++, 2000);
+        clock.clearTimeout(handle);
+        localClock.tick(2000);
+        expect(fired).to.be.eq(1);
+        expect(localClock.pendingTimers).to.be.eq(0);
+    });
+});
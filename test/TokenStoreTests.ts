@@ -1,4 +1,7 @@
 import { expect } from "chai";
+import { CookieStorageBackend } from "../src/CookieStorageBackend";
+import { InMemoryStorageBackend } from "../src/InMemoryStorageBackend";
+import { Token } from "../src/Token";
 import { TokenPersist } from "../src/TokenPersist";
 import { TokenStore } from "../src/TokenStore";
 import { TokenStoreType } from "../src/TokenStoreType";
@@ -45,10 +48,9 @@ export const tokenStoreTests: Mocha.Suite = describe("TokenStore", () => {
             expect(expirationCookie.tokenStoreType).to.be.eq(TokenStoreType.ExpirationCookie);
         });
 
-        it("should return invalid cookie if the cookie is not set", () => {
-            // tslint:disable-next-line:no-string-literal
-            const retrievedToken = expirationCookie["getTokenFromCookie"]("invalidCookieKey", {cookie: "my-cookie-value"} as any);
-            expect(retrievedToken.IsValid()).to.be.eq(false);
+        it("should return invalid cookie if the cookie is not set", async () => {
+            const retrievedValue = await new CookieStorageBackend({cookie: "my-cookie-value"}, TokenPersist.Expiration).get("invalidCookieKey");
+            expect(retrievedValue).to.be.eq(null);
         });
 
         it("should pick up global document if declared", () => {
@@ -74,6 +76,11 @@ export const tokenStoreTests: Mocha.Suite = describe("TokenStore", () => {
             expect(localStorage.tokenStoreType).to.be.eq(TokenStoreType.LocalStorage);
         });
 
+        it("can be constructed with a custom storage backend", () => {
+            const store = new TokenStore("https://my_token_store", "token_store_key_template", TokenPersist.Session, documentInstance, undefined, undefined, new InMemoryStorageBackend());
+            expect(store.tokenStoreType).to.be.eq(TokenStoreType.Custom);
+        });
+
         after(() => {
             ((...stores: TokenStore[]) => {
                 for (const store of stores) {
@@ -100,6 +107,13 @@ export const tokenStoreTests: Mocha.Suite = describe("TokenStore", () => {
                             expect(token.toString()).to.be.eq(retrieved.toString());
                         });
 
+                        it("Should persist the tokens to the storage backend", async () => {
+                            const token = MockTokenFactory.CreateValid();
+                            store.AccessToken = token;
+                            await store.flush();
+                            expect(await store.backend.get("token_store_key_template")).to.be.eq(token.toString());
+                        });
+
                     });
                 }
             })(inMemory,
@@ -109,5 +123,170 @@ export const tokenStoreTests: Mocha.Suite = describe("TokenStore", () => {
                 localStorage);
 
         });
+
+        describe("Cookie attributes", () => {
+            it("Should write the configured attributes", async () => {
+                const backend = new CookieStorageBackend(documentInstance, TokenPersist.Expiration, { path: "/", domain: "example.com", secure: true, sameSite: "Strict" });
+                const expiration = new Date(Date.UTC(2030, 0, 1));
+                await backend.set("token", "value", expiration);
+                expect(documentInstance.cookie).to.be.eq("token=value; Path=/; Domain=example.com; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Secure; SameSite=Strict");
+            });
+
+            it("Should not set the expiration for session cookies", async () => {
+                const backend = new CookieStorageBackend(documentInstance, TokenPersist.Session, { secure: true });
+                await backend.set("token", "value", new Date(Date.UTC(2030, 0, 1)));
+                expect(documentInstance.cookie).to.be.eq("token=value; Secure");
+            });
+
+            it("Should delete the cookie with an expired one with the same path and domain", async () => {
+                const backend = new CookieStorageBackend(documentInstance, TokenPersist.Session, { path: "/app", domain: "example.com", sameSite: "Lax" });
+                await backend.remove("token");
+                expect(documentInstance.cookie).to.be.eq("token=; Path=/app; Domain=example.com; Expires=Thu, 01 Jan 1970 00:00:00 GMT; SameSite=Lax");
+            });
+
+            it("Should pass the cookie options to the cookie backend", async () => {
+                const { localStorage: globalLocalStorage, sessionStorage: globalSessionStorage } = global as any;
+                delete (global as any).localStorage;
+                delete (global as any).sessionStorage;
+                const store = new TokenStore("https://my_token_store", "token", TokenPersist.Session, documentInstance, undefined, undefined, undefined, { secure: true });
+                Object.assign(global, { localStorage: globalLocalStorage, sessionStorage: globalSessionStorage });
+                expect(store.tokenStoreType).to.be.eq(TokenStoreType.SessionCookie);
+                await store.ready;
+                store.AccessToken = MockTokenFactory.CreateValid();
+                await store.flush();
+                expect(documentInstance.cookie).to.be.eq(`token=${store.AccessToken.toString()}; Secure`);
+            });
+        });
+
+        describe("HttpOnly refresh token mode", () => {
+            it("Should not store the refresh token", async () => {
+                const backend = new InMemoryStorageBackend();
+                await backend.set("sn-https://my_token_store-refresh", MockTokenFactory.CreateValid().toString());
+                const store = new TokenStore("https://my_token_store", "sn-${siteName}-${tokenName}", TokenPersist.Session,
+                    undefined, undefined, undefined, backend, { httpOnlyRefreshToken: true });
+                await store.ready;
+                expect(store.httpOnlyRefreshToken).to.be.eq(true);
+                expect(store.RefreshToken.IsEmpty).to.be.eq(true);
+                expect(await backend.get("sn-https://my_token_store-refresh")).to.be.eq(null);
+                store.RefreshToken = MockTokenFactory.CreateValid();
+                store.AccessToken = MockTokenFactory.CreateValid();
+                await store.flush();
+                expect(store.RefreshToken.IsEmpty).to.be.eq(true);
+                expect(await backend.get("sn-https://my_token_store-refresh")).to.be.eq(null);
+                expect(await backend.get("sn-https://my_token_store-access")).to.be.eq(store.AccessToken.toString());
+            });
+        });
+
+        describe("Shared web storage", () => {
+            const siteName = "https://my_token_store";
+            const keyTemplate = "sn-${siteName}-${tokenName}";
+            let storage: MockStorage;
+            let storeA: TokenStore;
+            let storeB: TokenStore;
+
+            beforeEach(async () => {
+                storage = new MockStorage();
+                storeA = new TokenStore(siteName, keyTemplate, TokenPersist.Expiration, {} as any, storage, new MockStorage());
+                storeB = new TokenStore(siteName, keyTemplate, TokenPersist.Expiration, {} as any, storage, new MockStorage());
+                await Promise.all([storeA.ready, storeB.ready]);
+            });
+
+            it("Should read the tokens that have been changed by another store", async () => {
+                const r1 = MockTokenFactory.CreateValidWithClaims({ sub: "r1" });
+                storeA.RefreshToken = r1;
+                await storeA.flush();
+                expect(storeB.RefreshToken.toString()).to.be.eq(r1.toString());
+                const r2 = MockTokenFactory.CreateValidWithClaims({ sub: "r2" });
+                storeB.RefreshToken = r2;
+                await storeB.flush();
+                expect(storeA.RefreshToken.toString()).to.be.eq(r2.toString());
+            });
+
+            it("Should read the tokens that have been removed by another store", async () => {
+                storeA.AccessToken = MockTokenFactory.CreateValid();
+                await storeA.flush();
+                expect(storeB.AccessToken.IsValid()).to.be.eq(true);
+                storeB.AccessToken = Token.CreateEmpty();
+                await storeB.flush();
+                expect(storeA.AccessToken.IsEmpty).to.be.eq(true);
+            });
+
+            it("Should keep its own token while the write is pending or if it has failed", async () => {
+                const token = MockTokenFactory.CreateValid();
+                storeA.AccessToken = token;
+                expect(storeA.AccessToken.toString()).to.be.eq(token.toString());
+                expect(storeB.AccessToken.IsEmpty).to.be.eq(true);
+                await storeA.flush();
+                storage.setItem = () => { throw Error("Quota exceeded"); };
+                const newToken = MockTokenFactory.CreateValidWithClaims({ sub: "new" });
+                storeA.AccessToken = newToken;
+                await storeA.flush();
+                expect(storeA.AccessToken.toString()).to.be.eq(newToken.toString());
+                expect(storeB.AccessToken.toString()).to.be.eq(token.toString());
+            });
+        });
+
+        describe("Custom storage backend", () => {
+            const siteName = "https://my_token_store";
+            const keyTemplate = "sn-${siteName}-${tokenName}";
+
+            it("Should load the stored tokens", async () => {
+                const backend = new InMemoryStorageBackend();
+                const token = MockTokenFactory.CreateValid();
+                await backend.set("sn-https://my_token_store-refresh", token.toString());
+                const store = new TokenStore(siteName, keyTemplate, TokenPersist.Session, undefined, undefined, undefined, backend);
+                expect(store.RefreshToken.IsValid()).to.be.eq(false);
+                await store.ready;
+                expect(store.RefreshToken.toString()).to.be.eq(token.toString());
+                expect(store.AccessToken.IsValid()).to.be.eq(false);
+            });
+
+            it("Should not overwrite the tokens that has been set during loading", async () => {
+                const backend = new InMemoryStorageBackend();
+                await backend.set("sn-https://my_token_store-access", MockTokenFactory.CreateExpired().toString());
+                const store = new TokenStore(siteName, keyTemplate, TokenPersist.Session, undefined, undefined, undefined, backend);
+                const token = MockTokenFactory.CreateValid();
+                store.AccessToken = token;
+                await store.ready;
+                expect(store.AccessToken.toString()).to.be.eq(token.toString());
+            });
+
+            it("Should remove the empty tokens from the backend", async () => {
+                const backend = new InMemoryStorageBackend();
+                const store = new TokenStore(siteName, keyTemplate, TokenPersist.Session, undefined, undefined, undefined, backend);
+                store.AccessToken = MockTokenFactory.CreateValid();
+                store.AccessToken = Token.CreateEmpty();
+                await store.flush();
+                expect(await backend.get("sn-https://my_token_store-access")).to.be.eq(null);
+            });
+
+            it("Should use an empty token if the backend fails to load", async () => {
+                const store = new TokenStore(siteName, keyTemplate, TokenPersist.Session, undefined, undefined, undefined, {
+                    get: async () => { throw Error("Storage unavailable"); },
+                    set: async () => { throw Error("Storage unavailable"); },
+                    remove: async () => { throw Error("Storage unavailable"); },
+                });
+                await store.ready;
+                expect(store.AccessToken.IsValid()).to.be.eq(false);
+                const token = MockTokenFactory.CreateValid();
+                store.AccessToken = token;
+                await store.flush();
+                expect(store.AccessToken.toString()).to.be.eq(token.toString());
+            });
+
+            it("Should set multiple tokens before the change notifications", async () => {
+                const backend = new InMemoryStorageBackend();
+                const store = new TokenStore(siteName, keyTemplate, TokenPersist.Session, undefined, undefined, undefined, backend);
+                const access = MockTokenFactory.CreateValid();
+                const refresh = MockTokenFactory.CreateValid();
+                const observed: string[] = [];
+                store.tokenChanged.subscribe((change) => observed.push(`${change.key}:${store.AccessToken.toString() === access.toString()}:${store.RefreshToken.toString() === refresh.toString()}`));
+                store.SetTokens({ access, refresh });
+                expect(observed).to.be.deep.eq(["access:true:true", "refresh:true:true"]);
+                await store.flush();
+                expect(await backend.get("sn-https://my_token_store-access")).to.be.eq(access.toString());
+                expect(await backend.get("sn-https://my_token_store-refresh")).to.be.eq(refresh.toString());
+            });
+        });
     });
 });
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { EncryptedStorageBackend } from "../src/EncryptedStorageBackend";
+import { InMemoryStorageBackend } from "../src/InMemoryStorageBackend";
+import { StorageEventTransport } from "../src/StorageEventTransport";
+import { Token } from "../src/Token";
+import { TokenPersist } from "../src/TokenPersist";
+import { TokenStore, TokenType } from "../src/TokenStore";
+import { TokenSync } from "../src/TokenSync";
+import { mockCrypto } from "./MockCrypto";
+import { MockStorage } from "./MockStorage";
+import { MockTokenFactory } from "./MockTokenFactory";
+import { MockTokenSyncTransport } from "./MockTokenSyncTransport";
+
+// tslint:disable:completed-docs
+
+export const tokenSyncTests: Mocha.Suite = describe("TokenSync", () => {
+    let bus: Set<MockTokenSyncTransport>;
+    let store1: TokenStore;
+    let store2: TokenStore;
+    let sync1: TokenSync;
+    let sync2: TokenSync;
+    let remoteChanges: TokenType[];
+
+    beforeEach(() => {
+        bus = new Set();
+        remoteChanges = [];
+        store1 = new TokenStore("https://my_token_store", "sn-${siteName}-${tokenName}", TokenPersist.Session, {} as any, new MockStorage(), new MockStorage());
+        store2 = new TokenStore("https://my_token_store", "sn-${siteName}-${tokenName}", TokenPersist.Session, {} as any, new MockStorage(), new MockStorage());
+        sync1 = new TokenSync("https://my_token_store", store1, new MockTokenSyncTransport(bus), () => undefined);
+        sync2 = new TokenSync("https://my_token_store", store2, new MockTokenSyncTransport(bus), (tokenType) => remoteChanges.push(tokenType));
+    });
+
+    afterEach(() => {
+        sync1.dispose();
+        sync2.dispose();
+    });
+
+    it("should push the token changes to the other stores", () => {
+        const token = MockTokenFactory.CreateValid();
+        store1.AccessToken = token;
+        expect(store2.AccessToken.toString()).to.be.eq(token.toString());
+        expect(remoteChanges).to.be.deep.eq(["access"]);
+    });
+
+    it("should push empty tokens", () => {
+        store1.RefreshToken = MockTokenFactory.CreateValid();
+        store1.RefreshToken = Token.CreateEmpty();
+        expect(store2.RefreshToken.IsValid()).to.be.eq(false);
+        expect(remoteChanges).to.be.deep.eq(["refresh", "refresh"]);
+    });
+
+    it("should not send back the remote changes", () => {
+        const transport = new MockTokenSyncTransport(bus);
+        const sync3 = new TokenSync("https://my_token_store", new TokenStore("https://my_token_store", "sn-${siteName}-${tokenName}", TokenPersist.Session, {} as any, new MockStorage(), new MockStorage()), transport, () => undefined);
+        store1.AccessToken = MockTokenFactory.CreateValid();
+        expect(transport.sentMessages.length).to.be.eq(0);
+        sync3.dispose();
+    });
+
+    it("should ignore messages from other sites", () => {
+        const transport = new MockTokenSyncTransport(bus);
+        transport.send({ siteName: "https://other_site", tokenType: "access", token: MockTokenFactory.CreateValid().toString() });
+        expect(store2.AccessToken.IsValid()).to.be.eq(false);
+        expect(remoteChanges).to.be.deep.eq([]);
+    });
+
+    it("should stop syncing after dispose", () => {
+        sync2.dispose();
+        store1.AccessToken = MockTokenFactory.CreateValid();
+        expect(store2.AccessToken.IsValid()).to.be.eq(false);
+    });
+
+    describe("Encrypted token stores", () => {
+        let transport: MockTokenSyncTransport;
+        let encryptedStore1: TokenStore;
+        let encryptedStore2: TokenStore;
+        let encryptedSync1: TokenSync;
+        let encryptedSync2: TokenSync;
+        beforeEach(async () => {
+            const key = await mockCrypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+            const inner = new InMemoryStorageBackend();
+            const createStore = () => new TokenStore("https://my_token_store", "sn-${siteName}-${tokenName}", TokenPersist.Expiration,
+                undefined, undefined, undefined, new EncryptedStorageBackend(inner, { getKey: async () => key }, mockCrypto));
+            encryptedStore1 = createStore();
+            encryptedStore2 = createStore();
+            await Promise.all([encryptedStore1.ready, encryptedStore2.ready]);
+            const encryptedBus = new Set<MockTokenSyncTransport>();
+            transport = new MockTokenSyncTransport(encryptedBus);
+            encryptedSync1 = new TokenSync("https://my_token_store", encryptedStore1, transport, () => undefined);
+            encryptedSync2 = new TokenSync("https://my_token_store", encryptedStore2, new MockTokenSyncTransport(encryptedBus), (tokenType) => remoteChanges.push(tokenType));
+        });
+
+        afterEach(() => {
+            encryptedSync1.dispose();
+            encryptedSync2.dispose();
+        });
+
+        it("should send only a change notice and re-read the token from the backend", async () => {
+            const token = MockTokenFactory.CreateValid();
+            encryptedStore1.RefreshToken = token;
+            await encryptedStore1.flush();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(transport.sentMessages).to.be.deep.eq([{ siteName: "https://my_token_store", tokenType: "refresh" }]);
+            expect(encryptedStore2.RefreshToken.toString()).to.be.eq(token.toString());
+            expect(remoteChanges).to.be.deep.eq(["refresh"]);
+        });
+
+        it("should not send notices after dispose", async () => {
+            encryptedStore1.AccessToken = MockTokenFactory.CreateValid();
+            encryptedSync1.dispose();
+            await encryptedStore1.flush();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            expect(transport.sentMessages.length).to.be.eq(0);
+        });
+    });
+
+    describe("StorageEventTransport", () => {
+        let listeners: Array<(ev: StorageEvent) => void>;
+        let storage: MockStorage;
+        let transport: StorageEventTransport;
+        beforeEach(() => {
+            listeners = [];
+            storage = new MockStorage();
+            transport = new StorageEventTransport("sn-token-sync", {
+                addEventListener: (type: string, listener: any) => listeners.push(listener),
+                removeEventListener: (type: string, listener: any) => listeners.splice(listeners.indexOf(listener), 1),
+            } as any, storage);
+        });
+
+        it("should write the message to the storage and remove it", () => {
+            const setItem = storage.setItem.bind(storage);
+            let written = "";
+            storage.setItem = (key: string, value: string) => {
+                written = value;
+                setItem(key, value);
+            };
+            transport.send({ siteName: "https://my_token_store", tokenType: "access", token: "" });
+            expect(JSON.parse(written).siteName).to.be.eq("https://my_token_store");
+            expect(storage.getItem("sn-token-sync")).to.be.eq(null);
+        });
+
+        it("should parse the messages from storage events", () => {
+            const received: any[] = [];
+            const subscription = transport.subscribe((message) => received.push(message));
+            listeners[0]({ key: "sn-token-sync", newValue: JSON.stringify({ tokenType: "access" }) } as StorageEvent);
+            listeners[0]({ key: "sn-token-sync", newValue: null } as StorageEvent);
+            listeners[0]({ key: "other-key", newValue: "{}" } as StorageEvent);
+            listeners[0]({ key: "sn-token-sync", newValue: "malformed" } as StorageEvent);
+            expect(received).to.be.deep.eq([{ tokenType: "access" }]);
+            subscription.dispose();
+            transport.dispose();
+            expect(listeners.length).to.be.eq(0);
+        });
+    });
+});
@@ -1,5 +1,7 @@
 import { expect } from "chai";
+import { ITokenPayload } from "../src/ITokenPayload";
 import { Token } from "../src/Token";
+import { MockClock } from "./MockClock";
 import { MockTokenFactory } from "./MockTokenFactory";
 
 // tslint:disable:completed-docs
@@ -20,15 +22,133 @@ export const tokenTests: Mocha.Suite = describe("Token", () => {
         expect(t.GetPayload()).to.be.instanceof(Object);
     });
 
+    it("should decode the payload only once", () => {
+        const t = MockTokenFactory.CreateValid();
+        expect(t.GetPayload()).to.be.eq(t.GetPayload());
+    });
+
+    it("should provide typed access to custom claims", () => {
+        interface ICustomPayload extends ITokenPayload {
+            roles: string[];
+            tenant: string;
+        }
+        const t = Token.FromHeadAndPayload<ICustomPayload>(MockTokenFactory.CreateValidWithClaims({ roles: ["Administrators"], tenant: "my-tenant" } as Partial<ICustomPayload>).toString());
+        expect(t.GetClaim("roles")).to.be.deep.eq(["Administrators"]);
+        expect(t.GetClaim("tenant")).to.be.eq("my-tenant");
+        expect(Token.CreateEmpty<ICustomPayload>().GetClaim("tenant")).to.be.eq(undefined);
+    });
+
+    it("should indicate if it is empty", () => {
+        const t = Token.CreateEmpty();
+        expect(t.IsEmpty).to.be.eq(true);
+        expect(t.IsMalformed).to.be.eq(false);
+        expect(t.GetPayload()).to.be.eq(undefined);
+        expect(t.Username).to.be.eq("");
+        expect(t.Validate().message).to.be.eq("The token is empty");
+    });
+
+    it("should indicate if it is malformed", () => {
+        const t = Token.FromHeadAndPayload("e30=.bm90LWEtanNvbg==");
+        expect(t.IsEmpty).to.be.eq(false);
+        expect(t.IsMalformed).to.be.eq(true);
+        expect(t.GetPayload()).to.be.eq(undefined);
+        expect(t.IsValid()).to.be.eq(false);
+        expect(t.Validate().message).to.be.eq("The token is malformed");
+    });
+
     it("should have an IssuedDate", () => {
         const t = MockTokenFactory.CreateValid();
         expect(t.IssuedDate).to.be.instanceof(Date);
     });
 
+    it("should have an AuthenticationTime only from the 'auth_time' claim", () => {
+        expect((MockTokenFactory.CreateValidWithClaims({ iat: 2000, auth_time: 1000 }).AuthenticationTime as Date).getTime()).to.be.eq(1000000);
+        expect(MockTokenFactory.CreateValidWithClaims({ iat: 2000 }).AuthenticationTime).to.be.eq(undefined);
+    });
+
+    describe("#Validate()", () => {
+        it("should be valid without a policy", () => {
+            expect(MockTokenFactory.CreateValid().Validate()).to.be.deep.eq({ isValid: true });
+        });
+
+        it("should fail on 'exp' if the token has been expired", () => {
+            expect(MockTokenFactory.CreateExpired().Validate().failedClaim).to.be.eq("exp");
+        });
+
+        it("should fail on 'nbf' if the token is not valid yet", () => {
+            expect(MockTokenFactory.CreateNotValidYet(60000).Validate().failedClaim).to.be.eq("nbf");
+            expect(MockTokenFactory.CreateNotValidYet(60000).Validate({}, true).isValid).to.be.eq(true);
+        });
+
+        it("should tolerate the clock skew", () => {
+            expect(MockTokenFactory.CreateNotValidYet(60000).Validate({ clockSkewMs: 120000 }).isValid).to.be.eq(true);
+        });
+
+        it("should use the time of the provided clock", () => {
+            const t = MockTokenFactory.CreateValid(60000);
+            const clock = new MockClock();
+            clock.tick(120000);
+            expect(t.Validate({}, false, clock).failedClaim).to.be.eq("exp");
+            expect(t.IsValid(false, clock)).to.be.eq(false);
+            expect(MockTokenFactory.CreateNotValidYet(60000).IsValid(false, clock)).to.be.eq(true);
+        });
+
+        it("should check the issuer", () => {
+            const t = MockTokenFactory.CreateValidWithClaims({ iss: "https://other-site" });
+            expect(t.Validate({ issuer: "https://my-site" }).failedClaim).to.be.eq("iss");
+            expect(t.Validate({ issuer: "https://other-site" }).isValid).to.be.eq(true);
+        });
+
+        it("should check string audiences", () => {
+            const t = MockTokenFactory.CreateValidWithClaims({ aud: "client" });
+            expect(t.Validate({ audiences: "other-client" }).failedClaim).to.be.eq("aud");
+            expect(t.Validate({ audiences: ["other-client", "client"] }).isValid).to.be.eq(true);
+        });
+
+        it("should check array audiences", () => {
+            const t = MockTokenFactory.CreateValidWithClaims({ aud: ["client", "admin"] });
+            expect(t.Validate({ audiences: ["other-client"] }).failedClaim).to.be.eq("aud");
+            expect(t.Validate({ audiences: "admin" }).isValid).to.be.eq(true);
+        });
+
+        it("should fail on 'aud' if the token has no audience", () => {
+            const t = MockTokenFactory.CreateValidWithClaims({ aud: undefined });
+            expect(t.Validate({ audiences: "client" }).failedClaim).to.be.eq("aud");
+        });
+
+        it("should check the subject", () => {
+            const t = MockTokenFactory.CreateValidWithClaims({ sub: "1" });
+            expect(t.Validate({ subject: "2" }).failedClaim).to.be.eq("sub");
+            expect(t.Validate({ subject: "1" }).isValid).to.be.eq(true);
+        });
+
+        it("should check the max age", () => {
+            const issuedAt = new Date().getTime() / 1000 - 3600;
+            const t = MockTokenFactory.CreateValidWithClaims({ iat: issuedAt });
+            const result = t.Validate({ maxAgeMs: 60000 });
+            expect(result.failedClaim).to.be.eq("iat");
+            expect(result.message).to.be.a("string");
+            expect(t.Validate({ maxAgeMs: 7200000 }).isValid).to.be.eq(true);
+        });
+    });
+
     it("should be able to await its notBefore time", async () => {
         const t = MockTokenFactory.CreateNotValidYet(1000);
         expect(t.IsValid()).to.be.eq(false);
         await t.AwaitNotBeforeTime();
         expect(t.IsValid()).to.be.eq(true);
     });
+
+    it("should await its notBefore time with the provided clock", async () => {
+        const t = MockTokenFactory.CreateNotValidYet(60000);
+        const clock = new MockClock();
+        let isAwaited = false;
+        const awaiting = t.AwaitNotBeforeTime(clock).then(() => isAwaited = true);
+        clock.tick(30000);
+        await Promise.resolve();
+        expect(isAwaited).to.be.eq(false);
+        clock.tick(31000);
+        await awaiting;
+        expect(t.IsValid(false, clock)).to.be.eq(true);
+    });
 });
@@ -0,0 +1,180 @@
+import { expect } from "chai";
+import { createHmac, createSign, generateKeyPairSync } from "crypto";
+import * as mainEntry from "../src";
+import { IJsonWebKeySet } from "../src/IJsonWebKeySet";
+import { InvalidSignatureError } from "../src/InvalidSignatureError";
+import { MalformedTokenError } from "../src/MalformedTokenError";
+import * as nodeEntry from "../src/node";
+import { Token } from "../src/Token";
+import { TokenVerificationAlgorithm, TokenVerifier } from "../src/TokenVerifier";
+import { UnsupportedAlgorithmError } from "../src/UnsupportedAlgorithmError";
+import { MockTokenFactory } from "./MockTokenFactory";
+
+// tslint:disable:completed-docs
+
+const base64Url = (data: Buffer | string) => Buffer.from(data as any).toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+
+const toPem = (der: Buffer, type: string) => `-----BEGIN ${type}-----\n${(der.toString("base64").match(/.{1,64}/g) as string[]).join("\n")}\n-----END ${type}-----\n`;
+
+/** reads the content of a DER element from the specified position */
+const readDer = (buffer: Buffer, position: number) => {
+    let length = buffer[position + 1];
+    let start = position + 2;
+    if (length >= 0x80) {
+        const lengthBytes = length - 0x80;
+        length = 0;
+        for (let i = 0; i < lengthBytes; i++) {
+            length = length * 0x100 + buffer[start + i];
+        }
+        start += lengthBytes;
+    }
+    return { start, end: start + length };
+};
+
+/** converts a DER ECDSA signature to the raw JWS format */
+const derToRawSignature = (signature: Buffer) => {
+    const sequence = readDer(signature, 0);
+    const r = readDer(signature, sequence.start);
+    const s = readDer(signature, r.end);
+    const pad = (value: Buffer) => Buffer.concat([Buffer.alloc(32), value]).slice(-32);
+    return Buffer.concat([pad(signature.slice(r.start, r.end)), pad(signature.slice(s.start, s.end))]);
+};
+
+const createJwt = (header: object, sign: (input: string) => Buffer) => {
+    const input = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify({ sub: "1", name: "BuiltIn\\Mock" }))}`;
+    return `${input}.${base64Url(sign(input))}`;
+};
+
+export const tokenVerifierTests: Mocha.Suite = describe("TokenVerifier", () => {
+    const secret = "my-shared-secret";
+    const rsaKeys = generateKeyPairSync("rsa", {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: "pkcs1", format: "der" },
+        privateKeyEncoding: { type: "pkcs1", format: "pem" },
+    } as any) as any as { publicKey: Buffer, privateKey: string };
+    const ecKeys = generateKeyPairSync("ec", {
+        namedCurve: "prime256v1",
+        publicKeyEncoding: { type: "spki", format: "der" },
+        privateKeyEncoding: { type: "sec1", format: "pem" },
+    } as any) as any as { publicKey: Buffer, privateKey: string };
+
+    const rsaPublicKeyPem = toPem(rsaKeys.publicKey, "RSA PUBLIC KEY");
+    const ecPublicKeyPem = toPem(ecKeys.publicKey, "PUBLIC KEY");
+
+    const rsaSequence = readDer(rsaKeys.publicKey, 0);
+    const rsaModulus = readDer(rsaKeys.publicKey, rsaSequence.start);
+    const rsaExponent = readDer(rsaKeys.publicKey, rsaModulus.end);
+
+    const jwks: IJsonWebKeySet = {
+        keys: [
+            { kty: "oct", kid: "hmac", k: base64Url(secret) },
+            { kty: "RSA", kid: "rsa", use: "sig", n: base64Url(rsaKeys.publicKey.slice(rsaModulus.start, rsaModulus.end)), e: base64Url(rsaKeys.publicKey.slice(rsaExponent.start, rsaExponent.end)) },
+            { kty: "EC", kid: "ec", crv: "P-256", x: base64Url(ecKeys.publicKey.slice(27, 59)), y: base64Url(ecKeys.publicKey.slice(59, 91)) },
+        ],
+    };
+
+    const signers: { [alg in TokenVerificationAlgorithm]: (input: string) => Buffer } = {
+        HS256: (input) => createHmac("sha256", secret).update(input).digest(),
+        RS256: (input) => createSign("SHA256").update(input).sign(rsaKeys.privateKey),
+        ES256: (input) => derToRawSignature(createSign("SHA256").update(input).sign(ecKeys.privateKey)),
+    };
+
+    const keys: { [alg in TokenVerificationAlgorithm]: string } = {
+        HS256: secret,
+        RS256: rsaPublicKeyPem,
+        ES256: ecPublicKeyPem,
+    };
+
+    const kids: { [alg in TokenVerificationAlgorithm]: string } = {
+        HS256: "hmac",
+        RS256: "rsa",
+        ES256: "ec",
+    };
+
+    for (const alg of ["HS256", "RS256", "ES256"] as TokenVerificationAlgorithm[]) {
+        describe(alg, () => {
+            it("should verify a valid signature with a key", () => {
+                const jwt = createJwt({ alg }, signers[alg]);
+                const token = new TokenVerifier(keys[alg]).verify(jwt);
+                expect(token.Username).to.be.eq("BuiltIn\\Mock");
+                expect(token.GetHeader().alg).to.be.eq(alg);
+            });
+
+            it("should verify a valid signature with a JWKS document", () => {
+                const jwt = createJwt({ alg, kid: kids[alg] }, signers[alg]);
+                const token = new TokenVerifier(jwks).verify(jwt);
+                expect(token.GetHeader().kid).to.be.eq(kids[alg]);
+            });
+
+            it("should throw on a bad signature", () => {
+                const jwt = createJwt({ alg }, signers[alg]);
+                const tampered = Token.FromJwt(jwt.replace(/\.([^.]+)\./, `.${base64Url(JSON.stringify({ name: "BuiltIn\\Admin" }))}.`));
+                expect(() => new TokenVerifier(keys[alg]).verify(tampered)).to.throw(InvalidSignatureError);
+            });
+        });
+    }
+
+    it("should throw if the algorithm is not supported", () => {
+        const jwt = createJwt({ alg: "none" }, () => Buffer.from("signature"));
+        expect(() => new TokenVerifier(secret).verify(jwt)).to.throw(UnsupportedAlgorithmError);
+    });
+
+    it("should throw if the algorithm is not allowed", () => {
+        const jwt = createJwt({ alg: "HS256" }, signers.HS256);
+        expect(() => new TokenVerifier(secret, ["RS256"]).verify(jwt)).to.throw(UnsupportedAlgorithmError);
+    });
+
+    it("should not accept a token that has been HMAC signed with the public key (algorithm confusion)", () => {
+        const input = `${base64Url(JSON.stringify({ alg: "HS256" }))}.${base64Url(JSON.stringify({ sub: "admin", exp: 9999999999 }))}`;
+        const forged = `${input}.${base64Url(createHmac("sha256", rsaPublicKeyPem).update(input).digest())}`;
+        expect(() => new TokenVerifier(rsaPublicKeyPem).verify(forged)).to.throw(UnsupportedAlgorithmError);
+        expect(() => new TokenVerifier(Buffer.from(rsaPublicKeyPem)).verify(forged)).to.throw(UnsupportedAlgorithmError);
+    });
+
+    it("should not accept an asymmetric algorithm with a shared secret", () => {
+        const jwt = createJwt({ alg: "RS256" }, signers.RS256);
+        expect(() => new TokenVerifier(secret).verify(jwt)).to.throw(UnsupportedAlgorithmError);
+    });
+
+    it("should throw if there is no key with the specified id", () => {
+        const jwt = createJwt({ alg: "RS256", kid: "unknown" }, signers.RS256);
+        expect(() => new TokenVerifier(jwks).verify(jwt)).to.throw(InvalidSignatureError, "unknown");
+    });
+
+    it("should throw if the curve is not supported", () => {
+        const jwt = createJwt({ alg: "ES256" }, signers.ES256);
+        expect(() => new TokenVerifier({ keys: [{ kty: "EC", crv: "P-384", x: "AA", y: "AA" }] }).verify(jwt)).to.throw(UnsupportedAlgorithmError);
+    });
+
+    it("should throw if a key field is missing", () => {
+        const jwt = createJwt({ alg: "RS256" }, signers.RS256);
+        expect(() => new TokenVerifier({ keys: [{ kty: "RSA", e: "AQAB" }] }).verify(jwt)).to.throw(InvalidSignatureError);
+    });
+
+    it("should throw if the token has no signature", () => {
+        expect(() => new TokenVerifier(secret).verify(MockTokenFactory.CreateValid())).to.throw(MalformedTokenError);
+    });
+
+    it("should be exported only from the Node.js entry point", () => {
+        expect((mainEntry as any).TokenVerifier).to.be.eq(undefined);
+        expect(nodeEntry.TokenVerifier).to.be.eq(TokenVerifier);
+        expect(nodeEntry.JwtService).to.be.eq(mainEntry.JwtService);
+    });
+
+    describe("Token.FromJwt()", () => {
+        it("should throw if the token doesn't have three parts", () => {
+            expect(() => Token.FromJwt(MockTokenFactory.CreateValid().toString())).to.throw(MalformedTokenError);
+        });
+
+        it("should throw if the payload is not a JSON object", () => {
+            expect(() => Token.FromJwt(`${base64Url("{}")}.${base64Url("not-a-json")}.c2ln`)).to.throw(MalformedTokenError);
+            expect(() => Token.FromJwt(`${base64Url("{}")}.${base64Url("1")}.c2ln`)).to.throw(MalformedTokenError);
+        });
+
+        it("should keep the signature", () => {
+            const token = Token.FromJwt(`${base64Url("{}")}.${base64Url("{}")}.c2ln`);
+            expect(token.Signature).to.be.eq("c2ln");
+            expect(token.toString()).to.be.eq(`${base64Url("{}")}.${base64Url("{}")}`);
+        });
+    });
+});
@@ -1,3 +1,13 @@
+export * from "./AuthorizationServiceTests";
+export * from "./EncryptedStorageBackendTests";
+export * from "./IdleTrackerTests";
 export * from "./JwtServiceTests";
+export * from "./PkceOauthProviderTests";
+export * from "./RefreshSchedulerTests";
+export * from "./ServerSessionTests";
+export * from "./SessionManagerTests";
+export * from "./SkewCompensatedClockTests";
 export * from "./TokenStoreTests";
+export * from "./TokenSyncTests";
 export * from "./TokenTests";
+export * from "./TokenVerifierTests";